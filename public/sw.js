@@ -0,0 +1,160 @@
+// Swift Transfer service worker: app shell for offline use, the share target
+// and streamed downloads for browsers without a save picker.
+// Plain JS on purpose: it is served as-is from /sw.js, outside the Vite build.
+
+const SHELL_CACHE = "swift-transfer-shell-v1";
+// must match SHARE_CACHE in src/lib/pwa.ts
+const SHARE_CACHE = "swift-transfer-share";
+
+const SHELL = ["/", "/index.html", "/manifest.webmanifest", "/favicon.png", "/icons/icon-192.png", "/icons/icon-512.png"];
+
+// hashed bundles referenced by index.html, so the first visit is enough to work offline
+async function shellAssets() {
+  const res = await fetch("/index.html", { cache: "no-store" });
+  const html = await res.text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((m) => m[1]);
+  return [...SHELL, ...assets];
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.addAll(await shellAssets());
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name !== SHELL_CACHE && name !== SHARE_CACHE) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+// downloads streamed from the page (src/lib/download.ts), by id
+const downloads = new Map();
+
+self.addEventListener("message", (event) => {
+  const { data } = event;
+  if (data?.type !== "stream-download") return;
+
+  const port = event.ports[0];
+  let nextChunk = null;
+
+  // pull() asks the page for one chunk and waits for it: the page never runs
+  // ahead of what the browser has written to disk
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data: msg }) => {
+        if (msg === "end") controller.close();
+        else if (msg === "abort") controller.error(new Error("Download aborted"));
+        else controller.enqueue(msg);
+        nextChunk?.();
+        nextChunk = null;
+      };
+    },
+    pull() {
+      return new Promise((resolve) => {
+        nextChunk = resolve;
+        port.postMessage("pull");
+      });
+    },
+    cancel() {
+      port.postMessage("cancel");
+    },
+  });
+
+  downloads.set(data.id, { stream, filename: data.filename, size: data.size });
+  port.postMessage("ready");
+});
+
+function streamedDownload(id) {
+  const entry = downloads.get(id);
+  downloads.delete(id);
+  if (!entry) return new Response("Download expired", { status: 404 });
+
+  const headers = {
+    "Content-Type": "application/octet-stream",
+    "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(entry.filename)}`,
+  };
+  if (entry.size) headers["Content-Length"] = String(entry.size);
+  return new Response(entry.stream, { headers });
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/__download/")) {
+    event.respondWith(streamedDownload(url.pathname.slice("/__download/".length)));
+    return;
+  }
+
+  if (request.method === "POST" && url.pathname === "/share-target") {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== "GET" || url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith("/assets/") || SHELL.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// index.html is not hashed: prefer the network so a deploy shows up right away
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok) await cache.put("/index.html", res.clone());
+    return res;
+  } catch {
+    // every route is the SPA
+    return (await cache.match("/index.html")) ?? Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const res = await fetch(request);
+  if (res.ok) await cache.put(request, res.clone());
+  return res;
+}
+
+// files shared from the OS: park them until UploadPage picks them up (?shared=1)
+async function receiveShare(request) {
+  const form = await request.formData();
+  const files = form.getAll("files").filter((f) => f instanceof File);
+
+  const cache = await caches.open(SHARE_CACHE);
+  for (const old of await cache.keys()) await cache.delete(old);
+
+  await Promise.all(
+    files.map((file, i) =>
+      cache.put(
+        `/__shared/${i}`,
+        new Response(file, {
+          headers: {
+            "Content-Type": file.type || "application/octet-stream",
+            "X-File-Name": encodeURIComponent(file.name),
+            "X-Last-Modified": String(file.lastModified),
+          },
+        })
+      )
+    )
+  );
+
+  return Response.redirect("/?shared=1", 303);
+}
@@ -0,0 +1,60 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/lib/i18n";
+
+export type DuplicateChoice = "skip" | "replace" | "keep";
+
+const SHOWN_NAMES = 5;
+
+/** Asks what to do with newly added files that are already in the list. Closing it skips them. */
+export function DuplicateFilesDialog({
+  names,
+  onChoose,
+}: {
+  /** names of the duplicates; the dialog is open while this is non-empty */
+  names: string[];
+  onChoose: (choice: DuplicateChoice) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <Dialog open={names.length > 0} onOpenChange={(o) => !o && onChoose("skip")}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("upload.duplicates.title", { count: names.length })}</DialogTitle>
+          <DialogDescription>{t("upload.duplicates.description")}</DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-1 text-sm text-slate-200">
+          {names.slice(0, SHOWN_NAMES).map((name, i) => (
+            <li key={i} className="truncate" title={name}>
+              {name}
+            </li>
+          ))}
+          {names.length > SHOWN_NAMES && (
+            <li className="text-slate-400">
+              {t("upload.duplicates.more", { count: names.length - SHOWN_NAMES })}
+            </li>
+          )}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onChoose("keep")}>
+            {t("upload.duplicates.keep")}
+          </Button>
+          <Button variant="secondary" onClick={() => onChoose("replace")}>
+            {t("upload.duplicates.replace")}
+          </Button>
+          <Button onClick={() => onChoose("skip")}>{t("upload.duplicates.skip")}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
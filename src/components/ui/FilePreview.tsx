@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { api } from "@/lib/api";
+import { formatBytes } from "@/lib/format";
+import { useI18n } from "@/lib/i18n";
+import {
+  isTooLargeToPreview,
+  parseDelimited,
+  previewKind,
+  type PreviewKind,
+} from "@/lib/preview";
+
+type PreviewFile = { name: string; type?: string; size: number };
+
+function Fallback({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border border-slate-800 bg-slate-950/25 p-6 text-center text-sm text-slate-200/80">
+      {children}
+    </div>
+  );
+}
+
+function TextBody({ kind, name, text }: { kind: PreviewKind; name: string; text: string }) {
+  if (kind === "csv") {
+    const rows = parseDelimited(text, name.toLowerCase().endsWith(".tsv") ? "\t" : ",");
+    return (
+      <div className="max-h-[65vh] overflow-auto rounded-lg border border-slate-800">
+        <table className="w-full text-xs text-slate-100">
+          <tbody>
+            {rows.map((r, i) => (
+              <tr
+                key={i}
+                className={i === 0 ? "bg-slate-800/60 font-medium" : "border-t border-slate-800/70"}
+              >
+                {r.map((c, j) => (
+                  <td key={j} className="px-2 py-1 whitespace-nowrap">
+                    {c}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  return (
+    <pre className="max-h-[65vh] overflow-auto rounded-lg border border-slate-800 bg-slate-950/40 p-3 text-xs text-slate-100 whitespace-pre-wrap break-words">
+      {text}
+    </pre>
+  );
+}
+
+function PreviewBody({
+  transferId,
+  index,
+  file,
+}: {
+  transferId: string;
+  index: number;
+  file: PreviewFile;
+}) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  // "" = failed without a message of its own
+  const [error, setError] = useState<string | null>(null);
+  const [mediaFailed, setMediaFailed] = useState(false);
+  const { t } = useI18n();
+
+  const kind = previewKind(file.name, file.type);
+  const tooLarge = !!kind && isTooLargeToPreview(kind, file.size);
+
+  useEffect(() => {
+    if (!kind || tooLarge) return;
+    const controller = new AbortController();
+
+    async function run() {
+      try {
+        const signed = await api.getFileDownloadUrl(transferId, index, {
+          inline: true,
+        });
+        if (controller.signal.aborted) return;
+
+        if (kind === "text" || kind === "csv") {
+          const res = await api.download(signed, controller.signal);
+          const body = await res.text();
+          if (!controller.signal.aborted) setText(body);
+        } else {
+          setUrl(signed);
+        }
+      } catch (e: unknown) {
+        if (!controller.signal.aborted)
+          setError(e instanceof Error ? e.message : "");
+      }
+    }
+
+    run();
+    return () => controller.abort();
+  }, [transferId, index, kind, tooLarge]);
+
+  if (!kind) return <Fallback>{t("preview.unsupported")}</Fallback>;
+  if (tooLarge)
+    return <Fallback>{t("preview.tooLarge", { size: formatBytes(file.size) })}</Fallback>;
+  if (error !== null) return <Fallback>{error || t("preview.failed")}</Fallback>;
+  if (mediaFailed) return <Fallback>{t("preview.cantPlay")}</Fallback>;
+  if (text !== null) return <TextBody kind={kind} name={file.name} text={text} />;
+  if (!url) return <Fallback>{t("preview.loading")}</Fallback>;
+
+  if (kind === "image") {
+    return (
+      <img
+        src={url}
+        alt={file.name}
+        onError={() => setMediaFailed(true)}
+        className="mx-auto max-h-[65vh] w-auto rounded-lg object-contain"
+      />
+    );
+  }
+  if (kind === "pdf") {
+    return (
+      <iframe
+        src={url}
+        title={file.name}
+        className="h-[65vh] w-full rounded-lg border border-slate-800 bg-white"
+      />
+    );
+  }
+  // <audio>/<video> fetch with Range requests, so large files stream instead of downloading
+  if (kind === "audio") {
+    return (
+      <audio
+        src={url}
+        controls
+        preload="metadata"
+        onError={() => setMediaFailed(true)}
+        className="w-full"
+      />
+    );
+  }
+  return (
+    <video
+      src={url}
+      controls
+      preload="metadata"
+      playsInline
+      onError={() => setMediaFailed(true)}
+      className="max-h-[65vh] w-full rounded-lg bg-black"
+    />
+  );
+}
+
+/** Inline viewer for file `index` of a transfer; closed when `file` is null. */
+export function FilePreview({
+  transferId,
+  index,
+  file,
+  onOpenChange,
+  onDownload,
+  downloadDisabled = false,
+}: {
+  transferId: string;
+  index: number;
+  file: PreviewFile | null;
+  onOpenChange: (open: boolean) => void;
+  onDownload: () => void;
+  downloadDisabled?: boolean;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{file?.name}</DialogTitle>
+          {file && <DialogDescription>{formatBytes(file.size)}</DialogDescription>}
+        </DialogHeader>
+
+        {file && (
+          <PreviewBody key={`${transferId}:${index}`} transferId={transferId} index={index} file={file} />
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="secondary" onClick={onDownload} disabled={downloadDisabled}>
+            {t("common.download")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
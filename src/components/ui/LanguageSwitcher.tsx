@@ -0,0 +1,21 @@
+import { LOCALES, useI18n, type Locale } from "@/lib/i18n";
+
+export function LanguageSwitcher({ className = "" }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t("common.language")}
+      title={t("common.language")}
+      className={`rounded-md border border-slate-800 bg-slate-950/60 px-2 py-1.5 text-sm text-slate-100 [color-scheme:dark] ${className}`}
+    >
+      {LOCALES.map((l) => (
+        <option key={l.value} value={l.value}>
+          {l.value.toUpperCase()}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,24 @@
+import { GlowBackground } from "@/components/ui/GlowBackground";
+import { useI18n } from "@/lib/i18n";
+import logo from "@/assets/logo.png";
+
+/** Full-page placeholder while Firebase restores the signed-in user. */
+export function LoadingScreen() {
+  const { t } = useI18n();
+
+  return (
+    <GlowBackground>
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4">
+        <img
+          src={logo}
+          alt="Swift Transfer"
+          className="h-24 w-auto opacity-80 select-none animate-pulse"
+          draggable={false}
+        />
+        <div className="text-sm text-slate-300/80" role="status">
+          {t("common.loading")}
+        </div>
+      </div>
+    </GlowBackground>
+  );
+}
@@ -0,0 +1,94 @@
+import type { ReactNode } from "react";
+
+// A small, safe subset of markdown for messages written by uploaders:
+// **bold**, *italic*, `code`, [links](https://…), bare https links, "- " lists
+// and paragraphs. Everything is rendered as React text, never as HTML.
+const INLINE =
+  /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\n]+\*|(?<!\w)_[^_\n]+_(?!\w))|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+const LIST_ITEM = /^\s*[-*]\s+/;
+
+function ExternalLink({ href, children }: { href: string; children: ReactNode }) {
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="text-indigo-300 underline underline-offset-4 hover:text-indigo-200 break-all"
+    >
+      {children}
+    </a>
+  );
+}
+
+function inline(text: string) {
+  const out: ReactNode[] = [];
+  let last = 0;
+
+  for (const m of text.matchAll(INLINE)) {
+    const at = m.index ?? 0;
+    if (at > last) out.push(text.slice(last, at));
+    const [whole, code, bold, italic, linkText, linkHref, bare] = m;
+
+    if (code) {
+      out.push(
+        <code key={at} className="rounded bg-slate-950/60 px-1 font-mono text-[0.9em]">
+          {code.slice(1, -1)}
+        </code>
+      );
+    } else if (bold) {
+      out.push(<strong key={at}>{bold.slice(2, -2)}</strong>);
+    } else if (italic) {
+      out.push(<em key={at}>{italic.slice(1, -1)}</em>);
+    } else if (linkText && linkHref) {
+      out.push(
+        <ExternalLink key={at} href={linkHref}>
+          {linkText}
+        </ExternalLink>
+      );
+    } else if (bare) {
+      out.push(
+        <ExternalLink key={at} href={bare}>
+          {bare}
+        </ExternalLink>
+      );
+    }
+    last = at + whole.length;
+  }
+
+  if (last < text.length) out.push(text.slice(last));
+  return out;
+}
+
+export function RichText({ text, className = "" }: { text: string; className?: string }) {
+  const blocks = text.trim().split(/\n\s*\n/);
+
+  return (
+    <div className={`space-y-3 break-words ${className}`}>
+      {blocks.map((block, i) => {
+        const lines = block.split("\n");
+
+        if (lines.every((l) => LIST_ITEM.test(l))) {
+          return (
+            <ul key={i} className="list-disc space-y-1 pl-5">
+              {lines.map((l, j) => (
+                <li key={j}>{inline(l.replace(LIST_ITEM, ""))}</li>
+              ))}
+            </ul>
+          );
+        }
+
+        return (
+          <p key={i}>
+            {lines.map((l, j) => (
+              <span key={j}>
+                {j > 0 && <br />}
+                {inline(l)}
+              </span>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
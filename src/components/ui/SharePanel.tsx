@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { copyText } from "@/lib/clipboard";
+import { navigateDownload, revokeLater } from "@/lib/download";
+import { useI18n } from "@/lib/i18n";
+
+const QR_OPTIONS = { margin: 2, errorCorrectionLevel: "M" } as const;
+
+function canShare(url: string) {
+  return typeof navigator.share === "function" && (navigator.canShare?.({ url }) ?? true);
+}
+
+/** Share link with a locally rendered QR code, copy / open / Web Share and QR downloads. */
+export function SharePanel({
+  url,
+  title = "Swift Transfer",
+  fileName = "swift-transfer-qr",
+}: {
+  url: string;
+  title?: string;
+  /** download name for the QR image, without extension */
+  fileName?: string;
+}) {
+  const [qr, setQr] = useState<{ url: string; png: string } | null>(null);
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+  const { t } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(url, { ...QR_OPTIONS, width: 512 })
+      .then((png) => !cancelled && setQr({ url, png }))
+      .catch(() => !cancelled && setQr(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  async function handleCopy() {
+    if (!(await copyText(url))) {
+      setCopyState("failed");
+      return;
+    }
+    setCopyState("copied");
+    setTimeout(() => setCopyState("idle"), 1500);
+  }
+
+  async function handleShare() {
+    try {
+      await navigator.share({ title, url });
+    } catch {
+      // dismissed by the user
+    }
+  }
+
+  async function downloadSvg() {
+    const svg = await QRCode.toString(url, { ...QR_OPTIONS, type: "svg" });
+    const blobUrl = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    navigateDownload(blobUrl, `${fileName}.svg`);
+    revokeLater(blobUrl);
+  }
+
+  const png = qr?.url === url ? qr.png : null;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4">
+      <div className="mx-auto sm:mx-0 h-40 w-40 shrink-0 overflow-hidden rounded-lg bg-white">
+        {png && <img src={png} alt={t("share.qrAlt")} className="h-full w-full" />}
+      </div>
+
+      <div className="min-w-0 flex-1 space-y-2">
+        <input
+          value={url}
+          readOnly
+          onFocus={(e) => e.currentTarget.select()}
+          className="w-full rounded-md border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100"
+        />
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleCopy}>
+            {copyState === "copied" ? t("common.copied") : t("common.copy")}
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => window.open(url, "_blank", "noopener,noreferrer")}
+          >
+            {t("common.open")}
+          </Button>
+          {canShare(url) && (
+            <Button variant="secondary" onClick={handleShare}>
+              {t("share.share")}
+            </Button>
+          )}
+        </div>
+        {copyState === "failed" && (
+          <div className="text-xs text-red-300">{t("common.copyFailed")}</div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={!png}
+            onClick={() => png && navigateDownload(png, `${fileName}.png`)}
+          >
+            {t("share.qrPng")}
+          </Button>
+          <Button size="sm" variant="secondary" onClick={downloadSvg}>
+            {t("share.qrSvg")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** SharePanel in a dialog, for places without room for it inline. */
+export function ShareDialog({
+  url,
+  description,
+  fileName,
+  onClose,
+}: {
+  url: string;
+  description?: React.ReactNode;
+  fileName?: string;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{t("share.title")}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <SharePanel url={url} fileName={fileName} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,7 @@
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { LanguageSwitcher } from "@/components/ui/LanguageSwitcher";
+import { useI18n } from "@/lib/i18n";
 
 export function TopRightBar({
   userEmail,
@@ -8,6 +10,8 @@ export function TopRightBar({
   userEmail?: string | null;
   onSignOut: () => void;
 }) {
+  const { t } = useI18n();
+
   return (
     // ✅ OUTER CONTAINER: centered on mobile, top-right on md+
     <div
@@ -26,20 +30,28 @@ export function TopRightBar({
             {userEmail}
           </div>
         ) : (
-          <div className="text-sm text-slate-200/60">Not signed in</div>
+          <div className="text-sm text-slate-200/60">{t("topbar.notSignedIn")}</div>
         )}
 
         <Link to="/">
-          <Button variant="secondary">Home</Button>
+          <Button variant="secondary">{t("topbar.home")}</Button>
         </Link>
 
         <Link to="/my-uploads">
-          <Button variant="secondary">My uploads</Button>
+          <Button variant="secondary">{t("topbar.myUploads")}</Button>
         </Link>
 
+        {userEmail && (
+          <Link to="/settings" title={t("topbar.settings")} aria-label={t("topbar.settings")}>
+            <Button variant="secondary">⚙️</Button>
+          </Link>
+        )}
+
         <Button variant="secondary" onClick={onSignOut}>
-          Sign out
+          {t("topbar.signOut")}
         </Button>
+
+        <LanguageSwitcher />
       </div>
     </div>
   );
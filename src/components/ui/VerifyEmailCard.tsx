@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { sendEmailVerification } from "firebase/auth";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/lib/auth";
+import { useI18n } from "@/lib/i18n";
+import { authErrorKey } from "@/lib/signIn";
+
+/** Shown instead of the uploader until a password account confirms its email. */
+export function VerifyEmailCard() {
+  const { user, reloadUser } = useAuth();
+  const { t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+
+  async function handleResend() {
+    if (!user) return;
+    setBusy(true);
+    setStatus("");
+    try {
+      await sendEmailVerification(user, { url: window.location.href });
+      setStatus(t("verify.sent", { email: user.email ?? "" }));
+    } catch (e: unknown) {
+      setStatus(t(authErrorKey(e, "verify.sendFailed")));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCheck() {
+    setBusy(true);
+    setStatus("");
+    try {
+      await reloadUser();
+      if (!user?.emailVerified) setStatus(t("verify.notYet"));
+    } catch (e: unknown) {
+      setStatus(t(authErrorKey(e, "common.unknownError")));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-amber-500/30 bg-amber-500/10 p-5 space-y-3 text-sm text-amber-100">
+      <div className="text-base font-medium">📧 {t("verify.title")}</div>
+      <div>{t("verify.body", { email: user?.email ?? "" })}</div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={handleCheck} disabled={busy}>
+          {t("verify.check")}
+        </Button>
+        <Button variant="secondary" onClick={handleResend} disabled={busy}>
+          {t("verify.resend")}
+        </Button>
+      </div>
+
+      {status && <div className="text-amber-100/90">{status}</div>}
+    </div>
+  );
+}
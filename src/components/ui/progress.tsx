@@ -0,0 +1,38 @@
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+const Progress = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement> & {
+    value: number
+    indicatorClassName?: string
+  }
+>(({ className, value, indicatorClassName, ...props }, ref) => {
+  const pct = Math.max(0, Math.min(100, value))
+  return (
+    <div
+      ref={ref}
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(pct)}
+      className={cn(
+        "relative h-2 w-full overflow-hidden rounded-full bg-slate-800/80",
+        className
+      )}
+      {...props}
+    >
+      <div
+        className={cn(
+          "h-full rounded-full bg-indigo-400 transition-[width] duration-200",
+          indicatorClassName
+        )}
+        style={{ width: `${pct}%` }}
+      />
+    </div>
+  )
+})
+Progress.displayName = "Progress"
+
+export { Progress }
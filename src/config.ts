@@ -1,2 +1,3 @@
 export const API_BASE_URL =
-  import.meta.env.VITE_API_URL || "https://<URL-BE-CLOUD-RUN>";
+  (import.meta.env.VITE_API_URL as string | undefined) ||
+  "https://api.swift-transfer.app";
@@ -0,0 +1,21 @@
+import * as React from "react";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+/** `navigator.onLine`, re-rendering when the connection comes and goes. */
+function useOnline() {
+  return React.useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    () => true
+  );
+}
+
+export { useOnline };
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from "vitest";
+import { ApiError, createApiClient } from "./api";
+
+// the default client signs in through Firebase; these tests only build their own
+vi.mock("./firebase", () => ({ auth: { currentUser: null } }));
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function setup(responses: Response[], tokens: Array<string | null> = ["stale", "fresh"]) {
+  const fetch = vi.fn<typeof globalThis.fetch>();
+  responses.forEach((r) => fetch.mockResolvedValueOnce(r));
+  const getToken = vi.fn(async (forceRefresh?: boolean) => tokens[forceRefresh ? 1 : 0]);
+  const onSessionExpired = vi.fn();
+  const client = createApiClient({
+    baseUrl: "https://api.test",
+    fetch,
+    getToken,
+    onSessionExpired,
+  });
+  const authorization = (call: number) =>
+    (fetch.mock.calls[call][1]?.headers as Record<string, string>).Authorization;
+  return { client, fetch, getToken, onSessionExpired, authorization };
+}
+
+describe("api client", () => {
+  it("refreshes the token and retries once after a 401", async () => {
+    const { client, fetch, getToken, authorization } = setup([
+      json(401, { error: "token expired" }),
+      json(200, { transfers: [], nextCursor: null }),
+    ]);
+
+    await expect(client.myTransfers()).resolves.toEqual({ transfers: [], nextCursor: null });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(getToken.mock.calls.map(([force]) => force)).toEqual([false, true]);
+    expect(authorization(0)).toBe("Bearer stale");
+    expect(authorization(1)).toBe("Bearer fresh");
+  });
+
+  it("reports an expired session when the fresh token is rejected too", async () => {
+    const { client, fetch, onSessionExpired } = setup([
+      json(401, { error: "token expired" }),
+      json(401, { error: "token expired" }),
+    ]);
+
+    const error = await client.myTransfers().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).code).toBe("session-expired");
+    expect((error as ApiError).messageKey).toBe("error.sessionExpired");
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports an expired session when the token can't be refreshed", async () => {
+    const onSessionExpired = vi.fn();
+    const client = createApiClient({
+      baseUrl: "https://api.test",
+      fetch: vi.fn<typeof globalThis.fetch>().mockResolvedValue(json(401, {})),
+      getToken: async (forceRefresh) => {
+        if (forceRefresh) throw new Error("auth/user-token-expired");
+        return "stale";
+      },
+      onSessionExpired,
+    });
+
+    await expect(client.myTransfers()).rejects.toMatchObject({ code: "session-expired" });
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry endpoints that answer 401 for their own reasons", async () => {
+    const { client, fetch, onSessionExpired } = setup([
+      json(401, { error: "Wrong password", code: "wrong-password" }),
+    ]);
+
+    await expect(client.unlockTransfer("t1", "nope")).rejects.toMatchObject({
+      status: 401,
+      code: "wrong-password",
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it("does not retry a request sent without a token", async () => {
+    const { client, fetch } = setup([json(401, { error: "Unauthorized" })], [null, null]);
+
+    await expect(client.getTransfer("t1")).rejects.toMatchObject({ status: 401 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("only treats this API's origin and the page's own as API URLs", () => {
+    vi.stubGlobal("location", { origin: "https://app.test" });
+    const { client } = setup([]);
+
+    expect(client.isApiUrl("https://api.test/api/transfers/t1/download")).toBe(true);
+    expect(client.isApiUrl("/api/transfers/t1/download")).toBe(true);
+    expect(client.isApiUrl("https://storage.test/file?sig=1")).toBe(false);
+    expect(client.isApiUrl("//evil.test/steal")).toBe(false);
+    expect(client.isApiUrl("https://api.test.evil.test/steal")).toBe(false);
+    expect(client.isApiUrl("https://api.test:8443/x")).toBe(false);
+
+    vi.unstubAllGlobals();
+  });
+});
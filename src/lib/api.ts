@@ -0,0 +1,585 @@
+import { API_BASE_URL } from "@/config";
+import { auth } from "./firebase";
+import { getTransferAccess } from "./transferAccess";
+import { reportSessionExpired } from "./session";
+import { en, type MessageKey } from "@/locales/en";
+
+// ---- Shared request / response types ----
+
+export type InitFile = {
+  name: string;
+  /** relative path inside an uploaded folder */
+  path?: string;
+  type: string;
+  size: number;
+  /** short note from the uploader, shown to recipients under the file */
+  note?: string;
+};
+
+export type InitRequest = {
+  /** in the order recipients will see them */
+  files: InitFile[];
+  resumable?: boolean;
+  /** objects will hold ciphertext: `files` carry the encrypted size and type */
+  encrypted?: boolean;
+};
+
+export type InitResponse = {
+  transferId: string;
+  uploads: Array<{
+    objectPath: string;
+    uploadUrl: string;
+  }>;
+};
+
+export type CompleteFile = InitFile & {
+  objectPath: string;
+  /** hex SHA-256 of the original file, computed in the uploader's browser */
+  sha256?: string;
+};
+
+export type CompleteRequest = {
+  transferId: string;
+  files: CompleteFile[];
+  /** recipients must enter it before seeing the files */
+  password?: string;
+  /** ms timestamp chosen by the uploader */
+  expiresAt?: number;
+  maxDownloads?: number;
+  /** end-to-end encrypted; `files` describe the plaintext */
+  encrypted?: boolean;
+  /** shown to recipients; stored as plain text even for encrypted transfers */
+  title?: string;
+  /** markdown-ish text, see components/ui/RichText.tsx */
+  message?: string;
+  senderName?: string;
+};
+
+export type CompleteResponse = {
+  shareUrl: string;
+};
+
+export type TransferFile = {
+  name: string;
+  path?: string;
+  type: string;
+  size: number;
+  objectPath: string;
+  /** hex SHA-256 recorded at upload, when the uploader's browser sent one */
+  sha256?: string;
+  note?: string;
+};
+
+export type TransferResponse = {
+  ok: boolean;
+  transferId: string;
+  status: string;
+  createdAt: number;
+  completedAt: number | null;
+  expiresAt: number | null;
+  /** null when downloads are unlimited */
+  maxDownloads?: number | null;
+  downloadCount?: number;
+  passwordProtected?: boolean;
+  /** contents are end-to-end encrypted; the key is only in the share link */
+  encrypted?: boolean;
+  /** Firebase uid of the uploader */
+  ownerUid?: string;
+  title?: string;
+  message?: string;
+  senderName?: string;
+  /** password protected and not unlocked yet: `files` is empty */
+  locked?: boolean;
+  files: TransferFile[];
+};
+
+export type UnlockResponse = {
+  ok: boolean;
+  accessToken: string;
+};
+
+/** One row of /api/transfers/my, timestamps normalized to ms. */
+export type TransferSummary = {
+  transferId: string;
+  title?: string;
+  shareUrl?: string;
+  status: string;
+  createdAt: number | null;
+  expiresAt: number | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  passwordProtected: boolean;
+  encrypted: boolean;
+  files: TransferFile[];
+};
+
+export type TransferStatusFilter = "ready" | "draft" | "expired";
+
+export type MyTransfersQuery = {
+  /** opaque cursor from the previous page's `nextCursor` */
+  cursor?: string;
+  limit?: number;
+  /** matched against file names */
+  q?: string;
+  status?: TransferStatusFilter;
+  sort?: "createdAt" | "expiresAt" | "size";
+  order?: "asc" | "desc";
+};
+
+export type MyTransfersPage = {
+  transfers: TransferSummary[];
+  nextCursor: string | null;
+};
+
+export type DownloadEvent = {
+  /** null for the "download all" ZIP */
+  fileIndex: number | null;
+  at: number;
+  /** email of the downloader when they were signed in */
+  by: string | null;
+};
+
+export type EmailEvent = {
+  to: string;
+  at: number;
+  status: "sent" | "failed";
+  error?: string;
+};
+
+/** Owner-only activity for one transfer. */
+export type TransferStats = {
+  downloads: DownloadEvent[];
+  emails: EmailEvent[];
+};
+
+export type UpdateTransferRequest = {
+  expiresAt?: number;
+};
+
+export type RegenerateLinkResponse = {
+  ok: boolean;
+  transferId: string;
+  shareUrl: string;
+};
+
+export type TransferOwnershipResponse = {
+  ok: boolean;
+  /** uid of the account that now owns the transfer */
+  ownerUid: string;
+};
+
+export type DownloadUrlResponse = {
+  ok: boolean;
+  url?: string;
+  error?: string;
+};
+
+export type SendEmailRequest = {
+  /** one email per address */
+  to: string[];
+  message?: string;
+};
+
+export type EmailDelivery = {
+  to: string;
+  status: "sent" | "failed";
+  error?: string;
+};
+
+export type SendEmailResponse = {
+  results: EmailDelivery[];
+};
+
+// ---- Errors ----
+
+/** Non-2xx answer from the API; `code` is the backend's error code when it sends one. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly body?: unknown;
+  /** set for errors raised by the client itself; shown translated instead of `message` */
+  readonly messageKey?: MessageKey;
+
+  constructor(
+    message: string,
+    status: number,
+    code?: string,
+    body?: unknown,
+    messageKey?: MessageKey
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.body = body;
+    this.messageKey = messageKey;
+  }
+}
+
+function clientError(messageKey: MessageKey, status: number, code: string) {
+  return new ApiError(en[messageKey], status, code, undefined, messageKey);
+}
+
+async function toApiError(res: Response, label: string) {
+  const text = await res.text().catch(() => "");
+  let body: unknown = text;
+  let detail = text;
+  let code: string | undefined;
+
+  try {
+    const json = JSON.parse(text) as { error?: unknown; message?: unknown; code?: unknown };
+    body = json;
+    if (typeof json.error === "string") detail = json.error;
+    else if (typeof json.message === "string") detail = json.message;
+    if (typeof json.code === "string") code = json.code;
+  } catch {
+    // plain-text error body
+  }
+
+  return new ApiError(`${label} (${res.status}): ${detail}`, res.status, code, body);
+}
+
+// Firestore timestamps may come through as ms, ISO strings or {_seconds}
+function toMillis(v: unknown): number | null {
+  if (typeof v === "number") return v;
+  if (typeof v === "string") {
+    const ms = Date.parse(v);
+    return Number.isNaN(ms) ? null : ms;
+  }
+  if (v && typeof v === "object") {
+    const o = v as { _seconds?: number; seconds?: number };
+    const sec = o._seconds ?? o.seconds;
+    if (typeof sec === "number") return sec * 1000;
+  }
+  return null;
+}
+
+function isNetworkFailure(e: unknown) {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  return (e as { code?: unknown } | null)?.code === "auth/network-request-failed";
+}
+
+// ---- Client ----
+
+export type ApiClientOptions = {
+  baseUrl: string;
+  /** injectable for tests */
+  fetch?: typeof fetch;
+  /** `forceRefresh` skips the cached token; throwing means the session is gone */
+  getToken?: (forceRefresh?: boolean) => Promise<string | null>;
+  /** a fresh token was rejected too: the user has to sign in again */
+  onSessionExpired?: () => void;
+  /** access token from unlocking a password-protected transfer */
+  getTransferAccess?: (transferId: string) => string | null;
+};
+
+type RequestOptions = {
+  method?: string;
+  body?: unknown;
+  /** fail early instead of sending an anonymous request */
+  requireAuth?: boolean;
+  signal?: AbortSignal;
+  /** sends the transfer's unlock token, if there is one */
+  transferId?: string;
+  /** the endpoint answers 401 for its own reasons (e.g. a wrong password) */
+  noAuthRetry?: boolean;
+  /** prefix for the error message, e.g. "Init failed" */
+  label: string;
+};
+
+export function createApiClient({
+  baseUrl,
+  fetch: fetchImpl,
+  getToken,
+  onSessionExpired,
+  getTransferAccess,
+}: ApiClientOptions) {
+  const doFetch: typeof fetch = (...args) => (fetchImpl ?? fetch)(...args);
+
+  function sessionExpired(): never {
+    onSessionExpired?.();
+    throw clientError("error.sessionExpired", 401, "session-expired");
+  }
+
+  async function authHeaders(
+    requireAuth?: boolean,
+    forceRefresh = false
+  ): Promise<Record<string, string>> {
+    let token: string | null;
+    try {
+      token = (await getToken?.(forceRefresh)) ?? null;
+    } catch (e: unknown) {
+      // a refresh that could not reach the server says nothing about the session
+      if (isNetworkFailure(e)) {
+        throw clientError("error.offline", 0, "offline");
+      }
+      return sessionExpired();
+    }
+    if (!token && requireAuth) {
+      throw clientError("error.notAuthenticated", 401, "not-authenticated");
+    }
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  async function send(url: string, opts: RequestOptions) {
+    const attempt = async (forceRefresh: boolean) => {
+      const headers: Record<string, string> = await authHeaders(
+        opts.requireAuth,
+        forceRefresh
+      );
+      if (opts.body !== undefined) headers["Content-Type"] = "application/json";
+
+      const access = opts.transferId ? getTransferAccess?.(opts.transferId) : null;
+      if (access) headers["X-Transfer-Access"] = access;
+
+      const res = await doFetch(url, {
+        method: opts.method ?? "GET",
+        headers,
+        body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
+        signal: opts.signal,
+      });
+      return { res, withToken: "Authorization" in headers };
+    };
+
+    const first = await attempt(false);
+    let res = first.res;
+
+    // the cached ID token may have just expired: refresh it and try once more
+    if (res.status === 401 && first.withToken && !opts.noAuthRetry) {
+      res = (await attempt(true)).res;
+      if (res.status === 401 && opts.requireAuth) sessionExpired();
+    }
+
+    if (!res.ok) throw await toApiError(res, opts.label);
+    return res;
+  }
+
+  async function request<T>(path: string, opts: RequestOptions): Promise<T> {
+    const res = await send(`${baseUrl}${path}`, opts);
+    if (res.status === 204) return undefined as T;
+    return (await res.json()) as T;
+  }
+
+  const transfer = (id: string) => `/api/transfers/${encodeURIComponent(id)}`;
+
+  /**
+   * true when `url` points at this API (needs the Authorization header).
+   * Origins are compared whole: a prefix check would also let `//other.host`
+   * or `https://api.example.com.other.host` receive the token.
+   */
+  function isApiUrl(url: string) {
+    try {
+      const { origin } = new URL(url, location.origin);
+      return origin === new URL(baseUrl, location.origin).origin || origin === location.origin;
+    } catch {
+      return false;
+    }
+  }
+
+  return {
+    baseUrl,
+    isApiUrl,
+
+    /** raw limits; see lib/uploadPolicy.ts for the defaults and parsing */
+    getUploadPolicy() {
+      return request<Record<string, unknown>>("/api/config/upload-policy", {
+        label: "Failed to load upload limits",
+      });
+    },
+
+    initTransfer(body: InitRequest) {
+      return request<InitResponse>("/api/transfers/init", {
+        method: "POST",
+        body,
+        label: "Init failed",
+      });
+    },
+
+    completeTransfer(body: CompleteRequest) {
+      return request<CompleteResponse>("/api/transfers/complete", {
+        method: "POST",
+        body,
+        label: "Complete failed",
+      });
+    },
+
+    getTransfer(transferId: string) {
+      return request<TransferResponse>(transfer(transferId), {
+        transferId,
+        label: "Failed to load transfer",
+      });
+    },
+
+    unlockTransfer(transferId: string, password: string) {
+      return request<UnlockResponse>(`${transfer(transferId)}/unlock`, {
+        method: "POST",
+        body: { password },
+        noAuthRetry: true,
+        label: "Unlock failed",
+      });
+    },
+
+    async myTransfers(query: MyTransfersQuery = {}): Promise<MyTransfersPage> {
+      const params = new URLSearchParams();
+      for (const [k, v] of Object.entries(query)) {
+        if (v !== undefined && v !== "") params.set(k, String(v));
+      }
+      const qs = params.toString();
+
+      const json = await request<{
+        transfers?: Array<Record<string, unknown>>;
+        nextCursor?: string | null;
+      }>(`/api/transfers/my${qs ? `?${qs}` : ""}`, {
+        requireAuth: true,
+        label: "Failed to load uploads",
+      });
+
+      const transfers = (json.transfers ?? []).map((t) => ({
+        transferId: String(t.transferId ?? t.id ?? ""),
+        shareUrl: typeof t.shareUrl === "string" ? t.shareUrl : undefined,
+        title: typeof t.title === "string" && t.title ? t.title : undefined,
+        status: typeof t.status === "string" ? t.status : "draft",
+        createdAt: toMillis(t.createdAt),
+        expiresAt: toMillis(t.expiresAt),
+        maxDownloads: typeof t.maxDownloads === "number" ? t.maxDownloads : null,
+        downloadCount: typeof t.downloadCount === "number" ? t.downloadCount : 0,
+        passwordProtected: t.passwordProtected === true,
+        encrypted: t.encrypted === true,
+        files: Array.isArray(t.files) ? (t.files as TransferFile[]) : [],
+      }));
+      return { transfers, nextCursor: json.nextCursor ?? null };
+    },
+
+    async getTransferStats(transferId: string): Promise<TransferStats> {
+      const json = await request<{
+        downloads?: Array<Record<string, unknown>>;
+        emails?: Array<Record<string, unknown>>;
+      }>(`${transfer(transferId)}/stats`, {
+        requireAuth: true,
+        label: "Failed to load statistics",
+      });
+
+      return {
+        downloads: (json.downloads ?? []).map((d) => ({
+          fileIndex: typeof d.fileIndex === "number" ? d.fileIndex : null,
+          at: toMillis(d.at) ?? 0,
+          by: typeof d.by === "string" ? d.by : null,
+        })),
+        emails: (json.emails ?? []).map((e) => ({
+          to: String(e.to ?? ""),
+          at: toMillis(e.at) ?? 0,
+          status: e.status === "failed" ? "failed" : "sent",
+          error: typeof e.error === "string" ? e.error : undefined,
+        })),
+      };
+    },
+
+    deleteTransfer(transferId: string) {
+      return request<{ ok: boolean }>(transfer(transferId), {
+        method: "DELETE",
+        requireAuth: true,
+        label: "Delete failed",
+      });
+    },
+
+    updateTransfer(transferId: string, body: UpdateTransferRequest) {
+      return request<{ ok: boolean; expiresAt: number | null }>(transfer(transferId), {
+        method: "PATCH",
+        body,
+        requireAuth: true,
+        label: "Update failed",
+      });
+    },
+
+    /** Disables the share link; the files stay listed for the owner. */
+    revokeTransfer(transferId: string) {
+      return request<{ ok: boolean }>(`${transfer(transferId)}/revoke`, {
+        method: "POST",
+        requireAuth: true,
+        label: "Revoke failed",
+      });
+    },
+
+    /** Issues a new share link; the old one stops working. */
+    regenerateLink(transferId: string) {
+      return request<RegenerateLinkResponse>(`${transfer(transferId)}/regenerate-link`, {
+        method: "POST",
+        requireAuth: true,
+        label: "Regenerate link failed",
+      });
+    },
+
+    /** Hands the transfer (files and link unchanged) to the account registered with `email`. */
+    transferOwnership(transferId: string, email: string) {
+      return request<TransferOwnershipResponse>(`${transfer(transferId)}/transfer-ownership`, {
+        method: "POST",
+        body: { email },
+        requireAuth: true,
+        label: "Transfer ownership failed",
+      });
+    },
+
+    /** Per-recipient outcome; a reply without `results` means every address was accepted. */
+    async sendEmail(transferId: string, body: SendEmailRequest): Promise<SendEmailResponse> {
+      const json = await request<{ ok?: boolean; results?: EmailDelivery[] }>(
+        `${transfer(transferId)}/email`,
+        {
+          method: "POST",
+          body,
+          label: "Email failed",
+        }
+      );
+      return {
+        results:
+          json.results ?? body.to.map((to) => ({ to, status: "sent" as const })),
+      };
+    },
+
+    /**
+     * Signed URL for one file. `inline` asks for a preview link
+     * (`Content-Disposition: inline`), which the backend does not count as a download.
+     */
+    async getFileDownloadUrl(
+      transferId: string,
+      index: number,
+      opts: { inline?: boolean } = {}
+    ) {
+      const qs = opts.inline ? "?disposition=inline" : "";
+      const json = await request<DownloadUrlResponse>(
+        `${transfer(transferId)}/files/${index}/download${qs}`,
+        { transferId, label: "Download link failed" }
+      );
+      if (!json.url) throw new Error(json.error || "Missing download url.");
+      return json.url;
+    },
+
+    /** Raw response, so the caller decides how to consume the archive. */
+    downloadZip(transferId: string, signal?: AbortSignal) {
+      return send(`${baseUrl}${transfer(transferId)}/download.zip`, {
+        signal,
+        transferId,
+        label: "ZIP download failed",
+      });
+    },
+
+    /** GET an arbitrary URL; the token is only sent to the API itself (signed storage URLs reject it via CORS). */
+    async download(url: string, signal?: AbortSignal) {
+      if (isApiUrl(url)) {
+        return send(url, { signal, requireAuth: true, label: "Download failed" });
+      }
+      const res = await doFetch(url, { signal });
+      if (!res.ok) throw await toApiError(res, "Download failed");
+      return res;
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+export const api = createApiClient({
+  baseUrl: API_BASE_URL,
+  getToken: async (forceRefresh) =>
+    auth.currentUser ? await auth.currentUser.getIdToken(forceRefresh) : null,
+  onSessionExpired: reportSessionExpired,
+  getTransferAccess,
+});
@@ -1,11 +1,21 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
-import { onAuthStateChanged, type User } from "firebase/auth";
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { onAuthStateChanged, signOut as firebaseSignOut, type User } from "firebase/auth";
 import { auth } from "./firebase";
+import { onSessionExpired } from "./session";
+import { toast } from "@/hooks/use-toast";
+import { useI18n } from "./i18n";
 
 type AuthCtx = {
   user: User | null;
   loading: boolean;
+  /** signed out because the session could not be refreshed; cleared on the next sign-in */
+  sessionExpired: boolean;
   getIdToken: () => Promise<string | null>;
+  signOut: () => Promise<void>;
+  /** re-read the profile (e.g. after verifying the email) and refresh the token's claims */
+  reloadUser: () => Promise<void>;
+  /** bumped by reloadUser: Firebase updates `user` in place, so compare this instead */
+  revision: number;
 };
 
 const Ctx = createContext<AuthCtx | null>(null);
@@ -13,22 +23,56 @@ const Ctx = createContext<AuthCtx | null>(null);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  // Firebase mutates the same User object on reload; bump this to re-render
+  const [revision, setRevision] = useState(0);
+  const { t } = useI18n();
 
   useEffect(() => {
     const unsub = onAuthStateChanged(auth, (u) => {
       setUser(u);
+      if (u) setSessionExpired(false);
       setLoading(false);
     });
     return () => unsub();
   }, []);
 
+  useEffect(
+    () =>
+      onSessionExpired(() => {
+        if (!auth.currentUser) return;
+        setSessionExpired(true);
+        toast({
+          variant: "destructive",
+          title: t("auth.sessionExpired"),
+          description: t("auth.sessionExpiredHint"),
+        });
+        firebaseSignOut(auth).catch(() => {});
+      }),
+    [t]
+  );
+
+  const signOut = useCallback(() => firebaseSignOut(auth), []);
+
+  const reloadUser = useCallback(async () => {
+    const u = auth.currentUser;
+    if (!u) return;
+    await u.reload();
+    await u.getIdToken(true);
+    setRevision((r) => r + 1);
+  }, []);
+
   const value = useMemo<AuthCtx>(
     () => ({
       user,
       loading,
+      sessionExpired,
       getIdToken: async () => (user ? await user.getIdToken() : null),
+      signOut,
+      reloadUser,
+      revision,
     }),
-    [user, loading]
+    [user, loading, sessionExpired, signOut, reloadUser, revision]
   );
 
   return <Ctx.Provider value={value}>{children}</Ctx.Provider>;
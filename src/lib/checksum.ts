@@ -0,0 +1,43 @@
+// SHA-256 of file contents, computed incrementally: Web Crypto can only
+// digest a whole buffer at once, which means holding the file in memory.
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+
+const READ_SIZE = 4 * 1024 * 1024;
+
+/** Hex SHA-256 of a Blob, read a few MiB at a time. */
+export async function sha256OfBlob(blob: Blob, signal?: AbortSignal) {
+  const h = sha256.create();
+  for (let pos = 0; pos < blob.size; pos += READ_SIZE) {
+    signal?.throwIfAborted();
+    const buf = await blob.slice(pos, pos + READ_SIZE).arrayBuffer();
+    h.update(new Uint8Array(buf));
+  }
+  return bytesToHex(h.digest());
+}
+
+/**
+ * Pass a response through unchanged while hashing it; `onDigest` gets the hex
+ * digest once the body has been read to the end (never, if it is cancelled).
+ */
+export function withChecksum(res: Response, onDigest: (hex: string) => void) {
+  if (!res.body) return res;
+  const h = sha256.create();
+  const body = res.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        h.update(chunk);
+        controller.enqueue(chunk);
+      },
+      flush() {
+        onDigest(bytesToHex(h.digest()));
+      },
+    })
+  );
+  return new Response(body, { headers: res.headers });
+}
+
+/** `1a2b3c4d…9e8f7a6b` */
+export function shortHash(hex: string) {
+  return hex.length > 20 ? `${hex.slice(0, 8)}…${hex.slice(-8)}` : hex;
+}
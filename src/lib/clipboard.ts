@@ -0,0 +1,23 @@
+/**
+ * Copy text, falling back to a hidden textarea where the Clipboard API is
+ * missing or denied (insecure context, no permission).
+ * Returns false when neither way worked.
+ */
+export async function copyText(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    const ta = document.createElement("textarea");
+    ta.value = text;
+    document.body.appendChild(ta);
+    ta.select();
+    try {
+      return document.execCommand("copy");
+    } catch {
+      return false;
+    } finally {
+      document.body.removeChild(ta);
+    }
+  }
+}
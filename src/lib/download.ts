@@ -0,0 +1,211 @@
+export type DownloadProgress = {
+  loaded: number;
+  /** null when the server sends no Content-Length (e.g. a ZIP built on the fly) */
+  total: number | null;
+};
+
+type SaveWritable = {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+};
+
+type SaveFilePicker = (opts: { suggestedName: string }) => Promise<{
+  createWritable(): Promise<SaveWritable>;
+}>;
+
+/**
+ * Let the browser fetch the file itself. Signed storage URLs need no
+ * Authorization header and already carry `Content-Disposition: attachment`,
+ * so the download streams to disk in the browser's own download manager.
+ */
+export function navigateDownload(url: string, filename: string) {
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.rel = "noopener";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+}
+
+type PickerWindow = Window & { showSaveFilePicker?: SaveFilePicker };
+
+// object URLs revoked right after click() can cancel the download in some browsers
+const REVOKE_DELAY_MS = 60_000;
+// an older cached worker doesn't know the download protocol and never answers
+const WORKER_READY_TIMEOUT_MS = 3000;
+
+/** Revoke an object URL once a download started from it no longer needs it. */
+export function revokeLater(url: string) {
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+/** true when `streamDownload` writes straight to disk instead of buffering. */
+export function canStreamToDisk() {
+  return (
+    typeof (window as PickerWindow).showSaveFilePicker === "function" ||
+    !!navigator.serviceWorker?.controller
+  );
+}
+
+/**
+ * Ask where to save before any network work: the picker needs the click's
+ * user activation, which is gone once a slow request resolves.
+ * Returns null when the File System Access API is not available.
+ */
+async function pickSaveTarget(filename: string) {
+  const showSaveFilePicker = (window as PickerWindow).showSaveFilePicker;
+  if (typeof showSaveFilePicker !== "function") return null;
+  const handle = await showSaveFilePicker({ suggestedName: filename });
+  return handle.createWritable();
+}
+
+/**
+ * Without a save picker (Firefox, Safari) the service worker turns the chunks
+ * into an ordinary browser download (see /__download/ in public/sw.js). It
+ * asks for one chunk at a time, so nothing piles up in memory.
+ * Returns null when no service worker controls the page or it doesn't answer.
+ */
+async function serviceWorkerTarget(
+  filename: string,
+  size: number | null,
+  signal: AbortSignal
+): Promise<SaveWritable | null> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) return null;
+
+  const id = crypto.randomUUID();
+  const channel = new MessageChannel();
+  let pulls = 0;
+  let cancelled = false;
+  let wake: (() => void) | null = null;
+
+  const wakeWriter = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const ready = new Promise<boolean>((resolve) => {
+    channel.port1.onmessage = ({ data }) => {
+      if (data === "ready") resolve(true);
+      else if (data === "pull") pulls++;
+      else if (data === "cancel") cancelled = true;
+      wakeWriter();
+    };
+    setTimeout(() => resolve(false), WORKER_READY_TIMEOUT_MS);
+  });
+  worker.postMessage({ type: "stream-download", id, filename, size }, [channel.port2]);
+  if (!(await ready)) {
+    channel.port1.close();
+    return null;
+  }
+  signal.addEventListener("abort", wakeWriter);
+
+  // a hidden frame opens the download without leaving the page
+  const frame = document.createElement("iframe");
+  frame.hidden = true;
+  frame.src = `/__download/${id}`;
+  document.body.appendChild(frame);
+  const done = () => {
+    signal.removeEventListener("abort", wakeWriter);
+    channel.port1.close();
+    setTimeout(() => frame.remove(), REVOKE_DELAY_MS);
+  };
+
+  return {
+    async write(chunk) {
+      while (!pulls && !cancelled && !signal.aborted) {
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+      // cancelled here or in the browser's download manager
+      if (cancelled || signal.aborted) {
+        throw new DOMException("Download cancelled", "AbortError");
+      }
+      pulls--;
+      channel.port1.postMessage(chunk);
+    },
+    async close() {
+      channel.port1.postMessage("end");
+      done();
+    },
+    async abort() {
+      channel.port1.postMessage("abort");
+      done();
+    },
+  };
+}
+
+/**
+ * Download a response that needs our headers (so it can't be a plain link).
+ * With the File System Access API the body is piped straight to disk, else
+ * through the service worker. Only without either are the chunks collected
+ * and saved once the response is complete.
+ * Throws an AbortError when cancelled, including from the save dialog.
+ */
+export async function streamDownload(
+  open: (signal: AbortSignal) => Promise<Response>,
+  filename: string,
+  {
+    signal,
+    onProgress,
+  }: { signal: AbortSignal; onProgress?: (p: DownloadProgress) => void }
+) {
+  let target = await pickSaveTarget(filename);
+
+  try {
+    const res = await open(signal);
+    const length = Number(res.headers.get("Content-Length"));
+    const total = Number.isFinite(length) && length > 0 ? length : null;
+    target ??= await serviceWorkerTarget(filename, total, signal);
+
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    onProgress?.({ loaded, total });
+
+    if (res.body) {
+      const reader = res.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (target) await target.write(value);
+        else chunks.push(value);
+        loaded += value.byteLength;
+        onProgress?.({ loaded, total });
+      }
+    } else {
+      const buf = new Uint8Array(await res.arrayBuffer());
+      chunks.push(buf);
+      onProgress?.({ loaded: buf.byteLength, total });
+    }
+
+    if (target) {
+      await target.close();
+      return;
+    }
+
+    const blobUrl = URL.createObjectURL(new Blob(chunks as BlobPart[]));
+    navigateDownload(blobUrl, filename);
+    revokeLater(blobUrl);
+  } catch (e: unknown) {
+    // leave no half-written file behind
+    await target?.abort().catch(() => undefined);
+    throw e;
+  }
+}
+
+/**
+ * "Q3 report.zip" from the transfer title, without characters file systems
+ * reject; `swift-transfer-<id>.zip` when there is no usable title.
+ */
+export function zipFileName(title: string | undefined, transferId: string) {
+  const base = Array.from(title ?? "", (c) => (c.charCodeAt(0) < 0x20 ? " " : c))
+    .join("")
+    .replace(/[<>:"/\\|?*]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+|\.+$/g, "")
+    .slice(0, 100)
+    .trim();
+  return `${base || `swift-transfer-${transferId}`}.zip`;
+}
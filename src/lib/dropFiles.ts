@@ -0,0 +1,80 @@
+// Fișiere din <input type="file"> sau drag & drop, cu path-ul relativ păstrat pentru foldere.
+
+export type PickedFile = {
+  file: File;
+  /** "folder/sub/name.ext" for files from a folder, otherwise just the name */
+  path: string;
+};
+
+const IGNORED_NAMES = new Set([".DS_Store", "Thumbs.db", "desktop.ini"]);
+
+function keep(name: string) {
+  return !IGNORED_NAMES.has(name);
+}
+
+export function filesFromInput(list: FileList | null): PickedFile[] {
+  if (!list) return [];
+  return Array.from(list)
+    .filter((file) => keep(file.name))
+    .map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+}
+
+function readBatch(reader: FileSystemDirectoryReader) {
+  return new Promise<FileSystemEntry[]>((resolve, reject) =>
+    reader.readEntries(resolve, reject)
+  );
+}
+
+// readEntries() returns at most ~100 entries per call, keep reading until empty
+async function readAllEntries(dir: FileSystemDirectoryEntry) {
+  const reader = dir.createReader();
+  const all: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await readBatch(reader);
+    if (!batch.length) return all;
+    all.push(...batch);
+  }
+}
+
+function entryFile(entry: FileSystemFileEntry) {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walk(entry: FileSystemEntry, prefix: string, out: PickedFile[]) {
+  if (entry.isFile) {
+    if (!keep(entry.name)) return;
+    const file = await entryFile(entry as FileSystemFileEntry);
+    out.push({ file, path: `${prefix}${entry.name}` });
+  } else if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    for (const child of children) {
+      await walk(child, `${prefix}${entry.name}/`, out);
+    }
+  }
+}
+
+/**
+ * Files from a drop event, descending into dropped folders. Must be called
+ * synchronously from the drop handler: the entries are only readable while
+ * the event is being dispatched.
+ */
+export function filesFromDataTransfer(dt: DataTransfer): Promise<PickedFile[]> {
+  const entries = Array.from(dt.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+
+  if (!entries.length) return Promise.resolve(filesFromInput(dt.files));
+
+  return (async () => {
+    const out: PickedFile[] = [];
+    for (const entry of entries) await walk(entry, "", out);
+    return out;
+  })();
+}
+
+/** Parent folder of a relative path ("" for top-level files). */
+export function folderOf(path: string) {
+  const i = path.lastIndexOf("/");
+  return i === -1 ? "" : path.slice(0, i);
+}
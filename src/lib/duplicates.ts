@@ -0,0 +1,54 @@
+// Spotting the same file added twice to the upload list.
+import { sha256OfBlob } from "./checksum";
+import { fileKey } from "./uploadSession";
+
+type ListedFile = { id: string; file: File };
+
+// a file is hashed at most once, however often the list is checked
+const hashes = new WeakMap<File, Promise<string>>();
+
+function contentHash(file: File) {
+  let hash = hashes.get(file);
+  if (!hash) {
+    hash = sha256OfBlob(file);
+    hashes.set(file, hash);
+  }
+  return hash;
+}
+
+/**
+ * Maps the id of every later copy to the id of the first file it repeats.
+ * Same name, size and lastModified is a duplicate; with `byContent`, files of
+ * equal size are hashed too and match whatever their names.
+ */
+export async function findDuplicates(files: ListedFile[], byContent = false) {
+  const duplicates = new Map<string, string>();
+  const firstByKey = new Map<string, string>();
+
+  for (const { id, file } of files) {
+    const key = fileKey(file);
+    const first = firstByKey.get(key);
+    if (first) duplicates.set(id, first);
+    else firstByKey.set(key, id);
+  }
+  if (!byContent) return duplicates;
+
+  // only files of the same size can have the same contents
+  const bySize = new Map<number, ListedFile[]>();
+  for (const f of files) {
+    if (duplicates.has(f.id)) continue;
+    bySize.set(f.file.size, [...(bySize.get(f.file.size) ?? []), f]);
+  }
+
+  for (const group of bySize.values()) {
+    if (group.length < 2) continue;
+    const firstByHash = new Map<string, string>();
+    for (const { id, file } of group) {
+      const hash = await contentHash(file);
+      const first = firstByHash.get(hash);
+      if (first) duplicates.set(id, first);
+      else firstByHash.set(hash, id);
+    }
+  }
+  return duplicates;
+}
@@ -0,0 +1,221 @@
+// End-to-end encryption of file contents with Web Crypto (AES-256-GCM).
+// The key never reaches the server: it travels in the share URL fragment
+// (`/t/:transferId#key=...`), which browsers don't send in requests.
+//
+// Encrypted file layout:
+//   "STE1" | nonce (8 bytes) | record 0 | record 1 | ...
+// Each record is up to RECORD_SIZE plaintext bytes + a 16 byte GCM tag.
+// The IV is nonce + record index, and the last record is authenticated as
+// "last", so records can't be reordered, dropped or truncated unnoticed.
+// Records have a fixed size, which lets an upload chunk encrypt only the
+// records it covers instead of the whole file.
+
+import { en, type MessageKey } from "@/locales/en";
+
+const MAGIC = new Uint8Array([0x53, 0x54, 0x45, 0x31]);
+const NONCE_SIZE = 8;
+const TAG_SIZE = 16;
+const HEADER_SIZE = MAGIC.length + NONCE_SIZE;
+
+/** Plaintext bytes per record. */
+export const RECORD_SIZE = 1024 * 1024;
+const SEALED_RECORD_SIZE = RECORD_SIZE + TAG_SIZE;
+
+/** What storage receives for an encrypted file, whatever its real type. */
+export const ENCRYPTED_CONTENT_TYPE = "application/octet-stream";
+
+export class DecryptionError extends Error {
+  /** shown translated instead of `message` (see errorMessage in lib/i18n) */
+  readonly messageKey: MessageKey;
+
+  constructor(messageKey: MessageKey = "e2e.error.decrypt") {
+    super(en[messageKey]);
+    this.name = "DecryptionError";
+    this.messageKey = messageKey;
+  }
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+export async function generateKey() {
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", key));
+  return toBase64Url(raw);
+}
+
+export async function importKey(encoded: string) {
+  let raw: Uint8Array;
+  try {
+    raw = fromBase64Url(encoded);
+  } catch {
+    throw new DecryptionError("e2e.error.malformedKey");
+  }
+  if (raw.length !== 32) throw new DecryptionError("e2e.error.malformedKey");
+  return crypto.subtle.importKey("raw", raw as BufferSource, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/** Per-file nonce; stored with the upload session so a resumed upload encrypts identically. */
+export function generateNonce() {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(NONCE_SIZE)));
+}
+
+/** `#key=...` part of a share link. */
+export function keyFragment(key: string) {
+  return `#key=${key}`;
+}
+
+/** Key from a location hash like `#key=...`, or null. */
+export function keyFromHash(hash: string) {
+  return new URLSearchParams(hash.replace(/^#/, "")).get("key");
+}
+
+function recordCount(plainSize: number) {
+  return Math.max(1, Math.ceil(plainSize / RECORD_SIZE));
+}
+
+export function encryptedSize(plainSize: number) {
+  return HEADER_SIZE + plainSize + recordCount(plainSize) * TAG_SIZE;
+}
+
+function recordParams(nonce: Uint8Array, index: number, last: boolean): AesGcmParams {
+  const iv = new Uint8Array(12);
+  iv.set(nonce);
+  new DataView(iv.buffer).setUint32(NONCE_SIZE, index);
+  return {
+    name: "AES-GCM",
+    iv,
+    additionalData: new Uint8Array([last ? 1 : 0]),
+  };
+}
+
+function header(nonce: Uint8Array) {
+  const out = new Uint8Array(HEADER_SIZE);
+  out.set(MAGIC);
+  out.set(nonce, MAGIC.length);
+  return out;
+}
+
+/**
+ * Blob-like view of `file` encrypted, for `uploadResumable`. `slice` only
+ * encrypts the records overlapping the requested range; records are
+ * deterministic per (key, nonce, index), so re-encrypting one that spans two
+ * chunks yields the same bytes.
+ */
+export function encryptedSource(file: Blob, key: CryptoKey, nonceB64: string) {
+  const nonce = fromBase64Url(nonceB64);
+  const records = recordCount(file.size);
+
+  async function sealRecord(index: number) {
+    const plain = await file
+      .slice(index * RECORD_SIZE, Math.min((index + 1) * RECORD_SIZE, file.size))
+      .arrayBuffer();
+    return crypto.subtle.encrypt(recordParams(nonce, index, index === records - 1), key, plain);
+  }
+
+  return {
+    size: encryptedSize(file.size),
+
+    async slice(start: number, end: number) {
+      const parts: BlobPart[] = [];
+      let base: number;
+
+      if (start < HEADER_SIZE) {
+        parts.push(header(nonce));
+        base = 0;
+      } else {
+        base = HEADER_SIZE + Math.floor((start - HEADER_SIZE) / SEALED_RECORD_SIZE) * SEALED_RECORD_SIZE;
+      }
+
+      if (end > HEADER_SIZE) {
+        const first = Math.max(0, Math.floor((start - HEADER_SIZE) / SEALED_RECORD_SIZE));
+        const last = Math.min(records - 1, Math.floor((end - 1 - HEADER_SIZE) / SEALED_RECORD_SIZE));
+        for (let r = first; r <= last; r++) parts.push(await sealRecord(r));
+      }
+
+      return new Blob(parts).slice(start - base, end - base);
+    },
+  };
+}
+
+/** Decrypts a stream in the layout above; errors with DecryptionError on tampering or a wrong key. */
+export function decryptStream(key: CryptoKey): TransformStream<Uint8Array, Uint8Array> {
+  let nonce: Uint8Array | null = null;
+  let index = 0;
+  let chunks: Uint8Array[] = [];
+  let buffered = 0;
+
+  function take(n: number) {
+    const all = new Uint8Array(buffered);
+    let pos = 0;
+    for (const c of chunks) {
+      all.set(c, pos);
+      pos += c.length;
+    }
+    chunks = n < all.length ? [all.subarray(n)] : [];
+    buffered = all.length - n;
+    return all.subarray(0, n);
+  }
+
+  async function open(sealed: Uint8Array, last: boolean) {
+    try {
+      const plain = await crypto.subtle.decrypt(
+        recordParams(nonce!, index++, last),
+        key,
+        sealed as BufferSource
+      );
+      return new Uint8Array(plain);
+    } catch {
+      throw new DecryptionError();
+    }
+  }
+
+  function readHeader() {
+    const h = take(HEADER_SIZE);
+    if (!MAGIC.every((b, i) => h[i] === b)) {
+      throw new DecryptionError("e2e.error.notEncrypted");
+    }
+    nonce = h.slice(MAGIC.length);
+  }
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      chunks.push(chunk);
+      buffered += chunk.length;
+
+      if (!nonce) {
+        if (buffered < HEADER_SIZE) return;
+        readHeader();
+      }
+
+      // a full record is only known not to be the last once more data follows it
+      while (buffered > SEALED_RECORD_SIZE) {
+        controller.enqueue(await open(take(SEALED_RECORD_SIZE), false));
+      }
+    },
+
+    async flush(controller) {
+      if (!nonce) {
+        if (buffered < HEADER_SIZE) throw new DecryptionError();
+        readHeader();
+      }
+      if (buffered < TAG_SIZE) throw new DecryptionError();
+      controller.enqueue(await open(take(buffered), true));
+    },
+  });
+}
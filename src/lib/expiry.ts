@@ -0,0 +1,39 @@
+import type { MessageKey } from "@/locales/en";
+
+export type ExpiryPreset = "1d" | "7d" | "30d" | "custom";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EXPIRY_PRESETS: Array<{ value: ExpiryPreset; label: MessageKey; days?: number }> = [
+  { value: "1d", label: "expiry.1d", days: 1 },
+  { value: "7d", label: "expiry.7d", days: 7 },
+  { value: "30d", label: "expiry.30d", days: 30 },
+  { value: "custom", label: "expiry.custom" },
+];
+
+export const DEFAULT_EXPIRY: ExpiryPreset = "7d";
+
+/** `YYYY-MM-DD` for <input type="date">, in local time. */
+export function toDateInputValue(ms: number) {
+  const d = new Date(ms);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+/**
+ * Expiry timestamp (ms) for a preset. A custom date means "until the end of
+ * that day", local time. Returns null when the custom date is missing or not
+ * in the future.
+ */
+export function resolveExpiry(preset: ExpiryPreset, customDate: string, now = Date.now()) {
+  if (preset !== "custom") {
+    const days = EXPIRY_PRESETS.find((p) => p.value === preset)?.days ?? 7;
+    return now + days * DAY_MS;
+  }
+
+  const m = customDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  const end = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 23, 59, 59, 999).getTime();
+  return end > now ? end : null;
+}
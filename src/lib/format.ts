@@ -0,0 +1,46 @@
+import { getLocale } from "@/lib/i18n";
+
+export function formatBytes(bytes: number, locale = getLocale()) {
+  if (!bytes) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.min(
+    Math.floor(Math.log(bytes) / Math.log(k)),
+    sizes.length - 1
+  );
+  const value = bytes / Math.pow(k, i);
+  const digits = value >= 10 || i === 0 ? 0 : 1;
+  const n = new Intl.NumberFormat(locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+  return `${n} ${sizes[i]}`;
+}
+
+export function formatRate(bytesPerSecond: number, locale = getLocale()) {
+  return `${formatBytes(bytesPerSecond, locale)}/s`;
+}
+
+/** "1h 05m", "3m 07s", "12s"; "—" when the estimate is not usable yet. */
+export function formatDuration(seconds: number) {
+  if (!Number.isFinite(seconds) || seconds < 0) return "—";
+  const s = Math.round(seconds);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = s % 60;
+  if (h > 0) return `${h}h ${String(m).padStart(2, "0")}m`;
+  if (m > 0) return `${m}m ${String(sec).padStart(2, "0")}s`;
+  return `${sec}s`;
+}
+
+export function formatDate(ts: number | null | undefined, locale = getLocale()) {
+  if (!ts) return "—";
+  try {
+    return new Date(ts).toLocaleString(locale, {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,88 @@
+import { createContext, useContext } from "react";
+import { en, type MessageKey } from "@/locales/en";
+import { ro } from "@/locales/ro";
+
+export type Locale = "en" | "ro";
+
+export const LOCALES: Array<{ value: Locale; label: string }> = [
+  { value: "en", label: "English" },
+  { value: "ro", label: "Română" },
+];
+
+const CATALOGUES: Record<Locale, Record<MessageKey, string>> = { en, ro };
+
+const STORAGE_KEY = "swift-transfer:locale";
+
+function isLocale(v: unknown): v is Locale {
+  return v === "en" || v === "ro";
+}
+
+/** Saved choice first, then the browser's preferred languages, else English. */
+export function detectLocale(): Locale {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+  for (const lang of navigator.languages ?? [navigator.language]) {
+    const base = lang?.toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return "en";
+}
+
+// read by formatting helpers outside React (see lib/format)
+let current: Locale = detectLocale();
+
+export function getLocale() {
+  return current;
+}
+
+export function saveLocale(locale: Locale) {
+  current = locale;
+  localStorage.setItem(STORAGE_KEY, locale);
+}
+
+export type TranslateVars = Record<string, string | number>;
+
+/** `{name}` placeholders are replaced from `vars`. */
+export function translate(locale: Locale, key: MessageKey, vars?: TranslateVars) {
+  const text = CATALOGUES[locale][key] ?? en[key];
+  if (!vars) return text;
+  return text.replace(/\{(\w+)\}/g, (m, name: string) =>
+    name in vars ? String(vars[name]) : m
+  );
+}
+
+const STATUS_KEYS: Record<string, MessageKey> = {
+  ready: "status.ready",
+  draft: "status.draft",
+  expired: "status.expired",
+  revoked: "status.revoked",
+};
+
+/** Catalogue key for a transfer status coming from the API. */
+export function statusKey(status?: string): MessageKey {
+  return STATUS_KEYS[(status || "").toLowerCase()] ?? "status.unknown";
+}
+
+/**
+ * Message to show for a caught error: errors raised by our own code carry a
+ * `messageKey` and are translated, others keep their own message.
+ */
+export function errorMessage(e: unknown, t: I18nCtx["t"], fallback: MessageKey) {
+  const key = (e as { messageKey?: MessageKey } | null)?.messageKey;
+  if (key) return t(key);
+  return e instanceof Error ? e.message : t(fallback);
+}
+
+export type I18nCtx = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, vars?: TranslateVars) => string;
+};
+
+export const I18nContext = createContext<I18nCtx | null>(null);
+
+export function useI18n() {
+  const v = useContext(I18nContext);
+  if (!v) throw new Error("useI18n must be used inside I18nProvider");
+  return v;
+}
@@ -0,0 +1,33 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  getLocale,
+  I18nContext,
+  saveLocale,
+  translate,
+  type I18nCtx,
+  type Locale,
+} from "./i18n";
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nCtx>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, vars) => translate(locale, key, vars),
+    }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,52 @@
+// Last fetched "My uploads" pages (per user, localStorage), shown when the API can't be reached.
+import type { MyTransfersQuery, TransferSummary } from "./api";
+
+// one entry per filter/sort combination; the oldest go first
+const MAX_ENTRIES = 5;
+
+export type SavedUploadsPage = {
+  savedAt: number;
+  transfers: TransferSummary[];
+};
+
+type SavedPages = Record<string, SavedUploadsPage>;
+
+function key(uid: string) {
+  return `swift-transfer:offline-uploads:${uid}`;
+}
+
+function queryKey({ q, status, sort, order }: MyTransfersQuery) {
+  return JSON.stringify([q ?? "", status ?? "", sort ?? "", order ?? ""]);
+}
+
+function load(uid: string): SavedPages {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key(uid)) ?? "{}") as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as SavedPages) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadSavedUploads(uid: string, query: MyTransfersQuery) {
+  const page = load(uid)[queryKey(query)];
+  return page && Array.isArray(page.transfers) ? page : null;
+}
+
+export function saveUploads(uid: string, query: MyTransfersQuery, transfers: TransferSummary[]) {
+  const pages = load(uid);
+  pages[queryKey(query)] = { savedAt: Date.now(), transfers };
+
+  const kept = Object.entries(pages)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(key(uid), JSON.stringify(Object.fromEntries(kept)));
+  } catch {
+    // storage full: the list just won't be available offline
+  }
+}
+
+export function clearSavedUploads(uid: string) {
+  localStorage.removeItem(key(uid));
+}
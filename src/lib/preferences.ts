@@ -0,0 +1,46 @@
+// Per-user upload defaults, kept on this device (localStorage).
+import { DEFAULT_EXPIRY, type ExpiryPreset } from "./expiry";
+
+export type UserPreferences = {
+  /** preset picked when the upload form opens or is cleared; never "custom" */
+  defaultExpiry: Exclude<ExpiryPreset, "custom">;
+  /** pre-filled message when emailing a share link */
+  defaultEmailMessage: string;
+};
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  defaultExpiry: DEFAULT_EXPIRY === "custom" ? "7d" : DEFAULT_EXPIRY,
+  defaultEmailMessage: "",
+};
+
+function key(uid: string) {
+  return `swift-transfer:preferences:${uid}`;
+}
+
+export function loadPreferences(uid: string): UserPreferences {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key(uid)) ?? "{}") as Partial<UserPreferences>;
+    return {
+      defaultExpiry:
+        parsed.defaultExpiry === "1d" ||
+        parsed.defaultExpiry === "7d" ||
+        parsed.defaultExpiry === "30d"
+          ? parsed.defaultExpiry
+          : DEFAULT_PREFERENCES.defaultExpiry,
+      defaultEmailMessage:
+        typeof parsed.defaultEmailMessage === "string"
+          ? parsed.defaultEmailMessage
+          : DEFAULT_PREFERENCES.defaultEmailMessage,
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export function savePreferences(uid: string, prefs: UserPreferences) {
+  localStorage.setItem(key(uid), JSON.stringify(prefs));
+}
+
+export function clearPreferences(uid: string) {
+  localStorage.removeItem(key(uid));
+}
@@ -0,0 +1,89 @@
+export type PreviewKind = "image" | "pdf" | "audio" | "video" | "text" | "csv";
+
+const MB = 1024 * 1024;
+
+// audio/video stream with range requests, so they have no limit
+const MAX_PREVIEW_BYTES: Partial<Record<PreviewKind, number>> = {
+  image: 25 * MB,
+  pdf: 50 * MB,
+  text: 1 * MB,
+  csv: 2 * MB,
+};
+
+const EXTENSIONS: Record<PreviewKind, string[]> = {
+  image: ["png", "jpg", "jpeg", "webp", "gif", "svg", "avif", "bmp"],
+  pdf: ["pdf"],
+  audio: ["mp3", "wav", "ogg", "m4a", "aac", "flac"],
+  video: ["mp4", "webm", "mov", "m4v"],
+  csv: ["csv", "tsv"],
+  text: [
+    "txt", "md", "log", "json", "xml", "yml", "yaml", "ini", "toml",
+    "js", "jsx", "ts", "tsx", "css", "html", "py", "java", "c", "cpp", "h",
+    "cs", "go", "rs", "rb", "php", "sh", "sql",
+  ],
+};
+
+/** Which viewer fits a file, by MIME type first and extension second; null when none does. */
+export function previewKind(name: string, type?: string): PreviewKind | null {
+  const mime = (type || "").toLowerCase();
+  if (mime === "application/pdf") return "pdf";
+  if (mime === "text/csv" || mime === "text/tab-separated-values") return "csv";
+  if (mime.startsWith("image/")) return "image";
+  if (mime.startsWith("audio/")) return "audio";
+  if (mime.startsWith("video/")) return "video";
+  if (mime.startsWith("text/") || mime === "application/json") return "text";
+
+  const ext = name.split(".").pop()?.toLowerCase();
+  if (!ext) return null;
+  for (const [kind, exts] of Object.entries(EXTENSIONS)) {
+    if (exts.includes(ext)) return kind as PreviewKind;
+  }
+  return null;
+}
+
+export function isTooLargeToPreview(kind: PreviewKind, size: number) {
+  const max = MAX_PREVIEW_BYTES[kind];
+  return max !== undefined && size > max;
+}
+
+/** Minimal CSV/TSV parser (quoted fields, escaped quotes); stops after `maxRows`. */
+export function parseDelimited(text: string, delimiter = ",", maxRows = 200) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') quoted = true;
+    else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+
+  if ((field || row.length) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
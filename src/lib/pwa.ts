@@ -0,0 +1,45 @@
+// Service worker registration + files handed over by the OS share sheet (see public/sw.js).
+
+// must match SHARE_CACHE in public/sw.js
+const SHARE_CACHE = "swift-transfer-share";
+
+export function registerServiceWorker() {
+  // the dev server has no build output to cache
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(() => {
+      // the app still works, just not offline
+    });
+  });
+}
+
+/** Files received by the share target, in the order they were shared. Each is read only once. */
+export async function takeSharedFiles(): Promise<File[]> {
+  if (!("caches" in window)) return [];
+
+  const cache = await caches.open(SHARE_CACHE);
+  const requests = [...(await cache.keys())].sort(
+    (a, b) => indexOf(a.url) - indexOf(b.url)
+  );
+
+  const files: File[] = [];
+  for (const req of requests) {
+    const res = await cache.match(req);
+    await cache.delete(req);
+    if (!res) continue;
+
+    const name = decodeURIComponent(res.headers.get("X-File-Name") ?? "");
+    files.push(
+      new File([await res.blob()], name || "shared-file", {
+        type: res.headers.get("Content-Type") ?? "",
+        lastModified: Number(res.headers.get("X-Last-Modified")) || Date.now(),
+      })
+    );
+  }
+  return files;
+}
+
+function indexOf(url: string) {
+  return Number(url.split("/").pop()) || 0;
+}
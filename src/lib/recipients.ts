@@ -0,0 +1,73 @@
+// Parsing of pasted recipient lists + recently used addresses (per user, localStorage).
+
+export const MAX_RECIPIENTS = 50;
+const MAX_RECENT = 20;
+
+const EMAIL_RE = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]{2,}$/;
+
+export function isValidEmail(email: string) {
+  return EMAIL_RE.test(email);
+}
+
+/**
+ * Split a pasted list on commas, semicolons and line breaks. Accepts
+ * `Name <a@b.com>` entries from mail clients; duplicates are dropped
+ * (case-insensitive) and the rest keep their order.
+ */
+export function parseRecipients(input: string) {
+  const valid: string[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of input.split(/[,;\n\r]+/)) {
+    const part = raw.trim();
+    if (!part) continue;
+
+    const angled = part.match(/<([^>]+)>/);
+    // "a@b.com c@d.com" pasted with spaces only
+    const candidates = angled ? [angled[1].trim()] : part.split(/\s+/);
+
+    for (const c of candidates) {
+      const email = c.replace(/^mailto:/i, "");
+      const key = email.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      (isValidEmail(email) ? valid : invalid).push(email);
+    }
+  }
+
+  return { valid, invalid };
+}
+
+function key(uid: string) {
+  return `swift-transfer:recent-recipients:${uid}`;
+}
+
+export function loadRecentRecipients(uid: string): string[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key(uid)) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((e) => typeof e === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Move `emails` to the front of the recent list; returns the new list. */
+export function rememberRecipients(uid: string, emails: string[]) {
+  const fresh = new Set(emails.map((e) => e.toLowerCase()));
+  const next = [
+    ...emails,
+    ...loadRecentRecipients(uid).filter((e) => !fresh.has(e.toLowerCase())),
+  ].slice(0, MAX_RECENT);
+
+  try {
+    localStorage.setItem(key(uid), JSON.stringify(next));
+  } catch {
+    // quota / private mode: suggestions just won't be remembered
+  }
+  return next;
+}
+
+export function clearRecentRecipients(uid: string) {
+  localStorage.removeItem(key(uid));
+}
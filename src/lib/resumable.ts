@@ -0,0 +1,114 @@
+// GCS resumable uploads on top of the signed URLs from /api/transfers/init.
+// The bucket CORS config must expose the `Location` and `Range` headers.
+import { putWithProgress } from "./upload";
+
+/** 8 MiB; every chunk except the last must be a multiple of 256 KiB. */
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+
+export async function startResumableSession(
+  uploadUrl: string,
+  contentType: string,
+  signal?: AbortSignal
+) {
+  const res = await fetch(uploadUrl, {
+    method: "POST",
+    headers: {
+      "x-goog-resumable": "start",
+      "Content-Type": contentType,
+    },
+    signal,
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Could not start upload session (${res.status}): ${text}`);
+  }
+
+  const location = res.headers.get("Location");
+  if (!location) throw new Error("Upload session response missing Location.");
+  return location;
+}
+
+// "bytes=0-1048575" => 1048576 (next byte to send)
+function nextOffset(range: string | null) {
+  const m = range?.match(/bytes=0-(\d+)/);
+  return m ? Number(m[1]) + 1 : 0;
+}
+
+/** Ask storage how many bytes of the object it already has. */
+export async function queryUploadedOffset(
+  sessionUrl: string,
+  size: number,
+  signal?: AbortSignal
+) {
+  const res = await fetch(sessionUrl, {
+    method: "PUT",
+    headers: { "Content-Range": `bytes */${size}` },
+    signal,
+  });
+
+  if (res.status === 200 || res.status === 201) return size;
+  if (res.status === 308) return nextOffset(res.headers.get("Range"));
+  throw new Error(`Upload session is no longer valid (${res.status}).`);
+}
+
+/** A Blob, or anything that can produce Blob slices on demand (e.g. encrypted data). */
+export type UploadSource = {
+  size: number;
+  slice(start: number, end: number): Blob | Promise<Blob>;
+};
+
+export type ResumableOptions = {
+  offset?: number;
+  chunkSize?: number;
+  contentType?: string;
+  onProgress?: (loaded: number) => void;
+  /** Called after each chunk with the offset storage confirmed. */
+  onChunk?: (offset: number) => void;
+  signal?: AbortSignal;
+};
+
+export async function uploadResumable(
+  sessionUrl: string,
+  file: UploadSource,
+  {
+    offset = 0,
+    chunkSize = CHUNK_SIZE,
+    contentType,
+    onProgress,
+    onChunk,
+    signal,
+  }: ResumableOptions = {}
+) {
+  const size = file.size;
+
+  if (size === 0) {
+    await putWithProgress(sessionUrl, await file.slice(0, 0), {
+      contentType,
+      headers: { "Content-Range": "bytes */0" },
+      signal,
+    });
+    onChunk?.(0);
+    return;
+  }
+
+  let start = offset;
+  onProgress?.(start);
+
+  while (start < size) {
+    const end = Math.min(start + chunkSize, size);
+    const base = start;
+
+    const res = await putWithProgress(sessionUrl, await file.slice(start, end), {
+      contentType,
+      headers: { "Content-Range": `bytes ${start}-${end - 1}/${size}` },
+      okStatuses: [308],
+      signal,
+      onProgress: (loaded) => onProgress?.(base + loaded),
+    });
+
+    start = res.status === 308 ? nextOffset(res.header("Range")) : size;
+    if (start <= base) throw new Error("Storage did not accept the chunk.");
+    onChunk?.(start);
+  }
+}
@@ -0,0 +1,16 @@
+// The API client reports a dead Firebase session here; AuthProvider listens.
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+export function reportSessionExpired() {
+  listeners.forEach((l) => l());
+}
+
+export function onSessionExpired(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,160 @@
+import {
+  GithubAuthProvider,
+  GoogleAuthProvider,
+  OAuthProvider,
+  getRedirectResult,
+  isSignInWithEmailLink,
+  linkWithPopup,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signInWithPopup,
+  signInWithRedirect,
+  type AuthProvider as FirebaseAuthProvider,
+  type User,
+} from "firebase/auth";
+import { FirebaseError } from "firebase/app";
+import { auth } from "./firebase";
+import type { MessageKey } from "@/locales/en";
+import { errorMessage, type I18nCtx } from "./i18n";
+
+export type OAuthProviderId = "google" | "github" | "microsoft";
+
+function createProvider(id: OAuthProviderId): FirebaseAuthProvider {
+  switch (id) {
+    case "google":
+      return new GoogleAuthProvider();
+    case "github":
+      return new GithubAuthProvider();
+    case "microsoft": {
+      const p = new OAuthProvider("microsoft.com");
+      p.setCustomParameters({ prompt: "select_account" });
+      return p;
+    }
+  }
+}
+
+// survives the round trip to the provider in sessionStorage
+const REDIRECT_FROM_KEY = "swift-transfer:auth-from";
+const LINK_EMAIL_KEY = "swift-transfer:email-for-sign-in";
+
+/** Only same-origin paths, so `from` can't be used as an open redirect. */
+export function safeFrom(from: string | null | undefined) {
+  return from && from.startsWith("/") && !from.startsWith("//") ? from : null;
+}
+
+/**
+ * Popup sign-in, falling back to a full-page redirect when the browser
+ * blocks popups. Resolves to false when the page is about to navigate away.
+ */
+export async function signInWithProvider(id: OAuthProviderId, from: string) {
+  const provider = createProvider(id);
+  try {
+    await signInWithPopup(auth, provider);
+    return true;
+  } catch (e: unknown) {
+    const code = e instanceof FirebaseError ? e.code : "";
+    if (
+      code !== "auth/popup-blocked" &&
+      code !== "auth/operation-not-supported-in-this-environment"
+    ) {
+      throw e;
+    }
+    sessionStorage.setItem(REDIRECT_FROM_KEY, from);
+    await signInWithRedirect(auth, provider);
+    return false;
+  }
+}
+
+/** Finish a redirect sign-in; returns where the user was headed, if one happened. */
+export async function completeRedirectSignIn() {
+  const from = sessionStorage.getItem(REDIRECT_FROM_KEY);
+  sessionStorage.removeItem(REDIRECT_FROM_KEY);
+  const result = await getRedirectResult(auth);
+  return result ? safeFrom(from) ?? "/" : null;
+}
+
+/** Email a passwordless sign-in link that comes back to /auth. */
+export async function sendMagicLink(email: string, from: string) {
+  const url = new URL("/auth", window.location.origin);
+  if (from !== "/") url.searchParams.set("from", from);
+
+  await sendSignInLinkToEmail(auth, email, { url: url.toString(), handleCodeInApp: true });
+  localStorage.setItem(LINK_EMAIL_KEY, email);
+}
+
+export function isMagicLink(href = window.location.href) {
+  return isSignInWithEmailLink(auth, href);
+}
+
+/** The address the link was requested for on this device, if any. */
+export function magicLinkEmail() {
+  return localStorage.getItem(LINK_EMAIL_KEY);
+}
+
+export async function completeMagicLink(email: string, href = window.location.href) {
+  await signInWithEmailLink(auth, email, href);
+  localStorage.removeItem(LINK_EMAIL_KEY);
+}
+
+/**
+ * Password accounts must confirm their address before uploading. Email-link
+ * and OAuth sign-ins have already proven it (or rely on the provider).
+ */
+export function needsEmailVerification(user: User | null) {
+  if (!user || user.emailVerified) return false;
+  return user.providerData.some((p) => p.providerId === "password");
+}
+
+const ERROR_KEYS: Record<string, MessageKey> = {
+  "auth/invalid-email": "auth.error.invalidEmail",
+  "auth/missing-email": "auth.error.invalidEmail",
+  "auth/user-disabled": "auth.error.userDisabled",
+  "auth/user-not-found": "auth.error.wrongCredentials",
+  "auth/wrong-password": "auth.error.wrongCredentials",
+  "auth/invalid-credential": "auth.error.wrongCredentials",
+  "auth/invalid-login-credentials": "auth.error.wrongCredentials",
+  "auth/email-already-in-use": "auth.error.emailInUse",
+  "auth/weak-password": "auth.error.weakPassword",
+  "auth/missing-password": "auth.error.weakPassword",
+  "auth/too-many-requests": "auth.error.tooManyRequests",
+  "auth/network-request-failed": "auth.error.network",
+  "auth/popup-closed-by-user": "auth.error.popupClosed",
+  "auth/cancelled-popup-request": "auth.error.popupClosed",
+  "auth/user-cancelled": "auth.error.popupClosed",
+  "auth/account-exists-with-different-credential": "auth.error.differentProvider",
+  "auth/credential-already-in-use": "auth.error.differentProvider",
+  "auth/invalid-action-code": "auth.error.linkInvalid",
+  "auth/expired-action-code": "auth.error.linkInvalid",
+  "auth/operation-not-allowed": "auth.error.providerDisabled",
+  "auth/unauthorized-domain": "auth.error.providerDisabled",
+  "auth/requires-recent-login": "auth.error.recentLogin",
+};
+
+/** Catalogue key for a Firebase Auth error; `fallback` for anything unmapped. */
+export function authErrorKey(e: unknown, fallback: MessageKey): MessageKey {
+  const code = e instanceof FirebaseError ? e.code : "";
+  return ERROR_KEYS[code] ?? fallback;
+}
+
+export const PROVIDER_IDS: Record<OAuthProviderId, string> = {
+  google: "google.com",
+  github: "github.com",
+  microsoft: "microsoft.com",
+};
+
+/** Attach another sign-in method to the signed-in account. */
+export async function linkProvider(user: User, id: OAuthProviderId) {
+  await linkWithPopup(user, createProvider(id));
+}
+
+/** Firebase only deletes accounts / changes passwords shortly after a sign-in. */
+export async function isRecentSignIn(user: User, maxAgeMs = 5 * 60 * 1000) {
+  const { authTime } = await user.getIdTokenResult();
+  return Date.now() - Date.parse(authTime) < maxAgeMs;
+}
+
+/** Readable message for Firebase Auth errors; other errors go through errorMessage. */
+export function authErrorMessage(e: unknown, t: I18nCtx["t"], fallback: MessageKey) {
+  if (e instanceof FirebaseError) return t(authErrorKey(e, fallback));
+  return errorMessage(e, t, fallback);
+}
@@ -0,0 +1,31 @@
+// Unlock-uri pentru transferuri cu parolă: valabile cât timp tab-ul e deschis (sessionStorage).
+
+const KEY_PREFIX = "swift-transfer:access";
+
+function key(transferId: string) {
+  return `${KEY_PREFIX}:${transferId}`;
+}
+
+export function getTransferAccess(transferId: string) {
+  try {
+    return sessionStorage.getItem(key(transferId));
+  } catch {
+    return null;
+  }
+}
+
+export function setTransferAccess(transferId: string, accessToken: string) {
+  try {
+    sessionStorage.setItem(key(transferId), accessToken);
+  } catch {
+    // storage disabled: the unlock only lasts until the next reload
+  }
+}
+
+export function clearTransferAccess(transferId: string) {
+  try {
+    sessionStorage.removeItem(key(transferId));
+  } catch {
+    // ignore
+  }
+}
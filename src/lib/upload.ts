@@ -0,0 +1,98 @@
+// fetch() nu expune progresul la upload, așa că PUT-urile trec prin XMLHttpRequest.
+
+export type PutOptions = {
+  contentType?: string;
+  headers?: Record<string, string>;
+  /** Non-2xx statuses that still count as success (e.g. 308 for chunks). */
+  okStatuses?: number[];
+  onProgress?: (loaded: number) => void;
+  signal?: AbortSignal;
+};
+
+export type PutResult = {
+  status: number;
+  header: (name: string) => string | null;
+};
+
+export function isAbortError(e: unknown) {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+/** PUT a blob to a (signed) URL, reporting bytes sent as they go out. */
+export function putWithProgress(
+  url: string,
+  body: Blob,
+  { contentType, headers, okStatuses, onProgress, signal }: PutOptions = {}
+): Promise<PutResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Upload cancelled", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader(
+      "Content-Type",
+      contentType || body.type || "application/octet-stream"
+    );
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.upload.onprogress = (e) => onProgress?.(e.loaded);
+
+    xhr.onload = () => {
+      cleanup();
+      const ok =
+        (xhr.status >= 200 && xhr.status < 300) ||
+        !!okStatuses?.includes(xhr.status);
+      if (ok) {
+        onProgress?.(body.size);
+        resolve({
+          status: xhr.status,
+          header: (name) => xhr.getResponseHeader(name),
+        });
+      } else {
+        reject(new Error(`${xhr.status} ${xhr.responseText}`.trim()));
+      }
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new Error("Network error"));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException("Upload cancelled", "AbortError"));
+    };
+
+    xhr.send(body);
+  });
+}
+
+/**
+ * Throughput over a sliding window, so the speed shown follows the
+ * connection instead of averaging over the whole transfer.
+ */
+export function createRateMeter(windowMs = 5000) {
+  const samples: Array<{ t: number; loaded: number }> = [];
+
+  return {
+    push(loaded: number, t = performance.now()) {
+      samples.push({ t, loaded });
+      while (samples.length > 2 && t - samples[0].t > windowMs) samples.shift();
+    },
+    /** bytes / second */
+    rate() {
+      if (samples.length < 2) return 0;
+      const first = samples[0];
+      const last = samples[samples.length - 1];
+      const dt = (last.t - first.t) / 1000;
+      return dt > 0 ? (last.loaded - first.loaded) / dt : 0;
+    },
+  };
+}
@@ -0,0 +1,98 @@
+// Upload limits checked before /api/transfers/init, so bad files are flagged per row
+// instead of the whole batch failing with a 413.
+import { api } from "./api";
+
+const GB = 1024 ** 3;
+
+export type UploadPolicy = {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+  /** lower-case, without the dot */
+  blockedExtensions: string[];
+};
+
+/** Used until (or when) /api/config/upload-policy answers. Keep in sync with the backend. */
+export const DEFAULT_UPLOAD_POLICY: UploadPolicy = {
+  maxFiles: 500,
+  maxFileBytes: 5 * GB,
+  maxTotalBytes: 10 * GB,
+  blockedExtensions: ["exe", "msi", "bat", "cmd", "com", "scr", "pif", "vbs", "ps1", "jar"],
+};
+
+export type PolicyIssue =
+  | { code: "blockedType"; extension: string }
+  | { code: "fileTooLarge"; max: number }
+  | { code: "tooManyFiles"; max: number }
+  | { code: "totalTooLarge"; max: number };
+
+function positive(v: unknown, fallback: number) {
+  return typeof v === "number" && Number.isFinite(v) && v > 0 ? v : fallback;
+}
+
+export function parseUploadPolicy(raw: Record<string, unknown>): UploadPolicy {
+  const blocked = raw.blockedExtensions;
+  return {
+    maxFiles: positive(raw.maxFiles, DEFAULT_UPLOAD_POLICY.maxFiles),
+    maxFileBytes: positive(raw.maxFileBytes, DEFAULT_UPLOAD_POLICY.maxFileBytes),
+    maxTotalBytes: positive(raw.maxTotalBytes, DEFAULT_UPLOAD_POLICY.maxTotalBytes),
+    blockedExtensions: Array.isArray(blocked)
+      ? blocked
+          .filter((e): e is string => typeof e === "string")
+          .map((e) => e.replace(/^\./, "").toLowerCase())
+      : DEFAULT_UPLOAD_POLICY.blockedExtensions,
+  };
+}
+
+let policyPromise: Promise<UploadPolicy> | null = null;
+
+/** Fetched once per page load; falls back to the defaults if the endpoint is unavailable. */
+export function fetchUploadPolicy() {
+  policyPromise ??= api
+    .getUploadPolicy()
+    .then(parseUploadPolicy)
+    .catch(() => {
+      policyPromise = null;
+      return DEFAULT_UPLOAD_POLICY;
+    });
+  return policyPromise;
+}
+
+function extensionOf(name: string) {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+/**
+ * Issues per file id; files without an entry can be uploaded. Count and total
+ * size limits flag the files that no longer fit, in list order, so removing
+ * them (or uploading only the rest) stays within the limits.
+ */
+export function checkUploadPolicy(
+  /** `name` is the name the file will be uploaded as, if renamed */
+  files: Array<{ id: string; file: File; name?: string }>,
+  policy: UploadPolicy
+) {
+  const issues = new Map<string, PolicyIssue>();
+  const blocked = new Set(policy.blockedExtensions);
+  let count = 0;
+  let total = 0;
+
+  for (const { id, file, name } of files) {
+    const extension = extensionOf(name ?? file.name);
+    if (extension && blocked.has(extension)) {
+      issues.set(id, { code: "blockedType", extension });
+    } else if (file.size > policy.maxFileBytes) {
+      issues.set(id, { code: "fileTooLarge", max: policy.maxFileBytes });
+    } else if (count + 1 > policy.maxFiles) {
+      issues.set(id, { code: "tooManyFiles", max: policy.maxFiles });
+    } else if (total + file.size > policy.maxTotalBytes) {
+      issues.set(id, { code: "totalTooLarge", max: policy.maxTotalBytes });
+    } else {
+      count++;
+      total += file.size;
+    }
+  }
+
+  return issues;
+}
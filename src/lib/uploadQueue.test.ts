@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { runUploadQueue, type QueueTask } from "./uploadQueue";
+
+const fast = { baseDelayMs: 0, maxDelayMs: 0 };
+
+function task(id: string, run: QueueTask["run"], signal?: AbortSignal): QueueTask {
+  return { id, run, signal };
+}
+
+describe("runUploadQueue", () => {
+  it("keeps at most `concurrency` tasks in flight", async () => {
+    let running = 0;
+    let peak = 0;
+    const tasks = Array.from({ length: 6 }, (_, i) =>
+      task(String(i), async () => {
+        peak = Math.max(peak, ++running);
+        await new Promise((r) => setTimeout(r, 5));
+        running--;
+      })
+    );
+
+    const result = await runUploadQueue(tasks, { concurrency: 2, ...fast });
+
+    expect(peak).toBe(2);
+    expect(result.done).toHaveLength(6);
+  });
+
+  it("retries a failing task and reports the attempt", async () => {
+    const onRetry = vi.fn();
+    const run = vi
+      .fn<QueueTask["run"]>()
+      .mockRejectedValueOnce(new Error("network"))
+      .mockResolvedValueOnce(undefined);
+
+    const result = await runUploadQueue([task("a", run)], { onRetry, ...fast });
+
+    expect(result.done).toEqual(["a"]);
+    expect(run.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+    expect(onRetry).toHaveBeenCalledWith("a", 2, expect.any(Error), 0);
+  });
+
+  it("reports a task as failed once out of retries and keeps going", async () => {
+    const onFail = vi.fn();
+    const error = new Error("server");
+    const failing = vi.fn<QueueTask["run"]>().mockRejectedValue(error);
+
+    const result = await runUploadQueue(
+      [task("bad", failing), task("good", async () => {})],
+      { retries: 2, concurrency: 1, onFail, ...fast }
+    );
+
+    expect(failing).toHaveBeenCalledTimes(3);
+    expect(result.failed).toEqual([{ id: "bad", error }]);
+    expect(result.done).toEqual(["good"]);
+    expect(onFail).toHaveBeenCalledWith("bad", error);
+  });
+
+  it("never retries an aborted task", async () => {
+    const controller = new AbortController();
+    const run = vi.fn<QueueTask["run"]>(async () => {
+      controller.abort();
+      throw new DOMException("Upload cancelled", "AbortError");
+    });
+
+    const result = await runUploadQueue([task("a", run, controller.signal)], fast);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(result.cancelled).toEqual(["a"]);
+  });
+
+  it("skips tasks whose signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const run = vi.fn<QueueTask["run"]>();
+
+    const result = await runUploadQueue([task("a", run, controller.signal)], fast);
+
+    expect(run).not.toHaveBeenCalled();
+    expect(result.cancelled).toEqual(["a"]);
+  });
+});
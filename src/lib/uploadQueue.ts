@@ -0,0 +1,158 @@
+import { isAbortError } from "./upload";
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 6;
+
+export type QueueTask = {
+  id: string;
+  /** attempt starts at 1 */
+  run: (attempt: number) => Promise<void>;
+  signal?: AbortSignal;
+};
+
+export type QueueOptions = {
+  concurrency?: number;
+  /** extra attempts after the first failure */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onStart?: (id: string, attempt: number) => void;
+  onRetry?: (id: string, attempt: number, error: unknown, delayMs: number) => void;
+  onDone?: (id: string) => void;
+  onFail?: (id: string, error: unknown) => void;
+  /** a task failed while the browser is offline; it resumes once back online */
+  onOffline?: (id: string) => void;
+};
+
+export type QueueResult = {
+  done: string[];
+  failed: Array<{ id: string; error: unknown }>;
+  cancelled: string[];
+};
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Upload cancelled", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Upload cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function isOffline() {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+function waitForOnline(signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Upload cancelled", "AbortError"));
+      return;
+    }
+    const onOnline = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      window.removeEventListener("online", onOnline);
+      reject(new DOMException("Upload cancelled", "AbortError"));
+    };
+    window.addEventListener("online", onOnline, { once: true });
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Exponential backoff with jitter: ~1s, 2s, 4s ... capped at maxDelayMs. */
+export function backoffDelay(attempt: number, baseDelayMs = 1000, maxDelayMs = 30000) {
+  const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exp * (0.5 + Math.random() * 0.5));
+}
+
+/**
+ * Runs tasks with at most `concurrency` in flight. A task that throws is
+ * retried with backoff; once out of retries it is reported as failed and the
+ * rest of the queue keeps going. Aborted tasks are never retried. Failures
+ * while offline don't count: the task waits for the connection and retries.
+ */
+export async function runUploadQueue(
+  tasks: QueueTask[],
+  {
+    concurrency = DEFAULT_CONCURRENCY,
+    retries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 30000,
+    onStart,
+    onRetry,
+    onDone,
+    onFail,
+    onOffline,
+  }: QueueOptions = {}
+): Promise<QueueResult> {
+  const result: QueueResult = { done: [], failed: [], cancelled: [] };
+  let next = 0;
+
+  async function runTask(task: QueueTask) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (task.signal?.aborted) {
+          throw new DOMException("Upload cancelled", "AbortError");
+        }
+        onStart?.(task.id, attempt);
+        await task.run(attempt);
+        result.done.push(task.id);
+        onDone?.(task.id);
+        return;
+      } catch (e: unknown) {
+        if (isAbortError(e)) {
+          result.cancelled.push(task.id);
+          return;
+        }
+        if (isOffline()) {
+          onOffline?.(task.id);
+          try {
+            await waitForOnline(task.signal);
+          } catch {
+            result.cancelled.push(task.id);
+            return;
+          }
+          attempt--;
+          continue;
+        }
+        if (attempt > retries) {
+          result.failed.push({ id: task.id, error: e });
+          onFail?.(task.id, e);
+          return;
+        }
+
+        const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+        onRetry?.(task.id, attempt + 1, e, delay);
+        try {
+          await sleep(delay, task.signal);
+        } catch {
+          result.cancelled.push(task.id);
+          return;
+        }
+      }
+    }
+  }
+
+  async function worker() {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      await runTask(task);
+    }
+  }
+
+  const workers = Math.max(1, Math.min(concurrency, tasks.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return result;
+}
@@ -0,0 +1,117 @@
+// Transfer în curs, păstrat în localStorage ca să poată fi reluat după reload.
+import type { ExpiryPreset } from "./expiry";
+
+export type StoredUploadFile = {
+  /** name sent to the API; may differ from the local file's (renamed before upload) */
+  name: string;
+  /** local file name when it was renamed; used to recognise the re-selected file */
+  localName?: string;
+  note?: string;
+  path: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  objectPath: string;
+  uploadUrl: string;
+  sessionUrl?: string;
+  offset: number;
+  done: boolean;
+  /** per-file nonce when the transfer is end-to-end encrypted */
+  nonce?: string;
+  /** hex SHA-256 of the file, set once it is uploaded */
+  sha256?: string;
+};
+
+/** Transfer options picked at the start. The password itself is never stored. */
+export type StoredTransferOptions = {
+  /** the uploader set a password; it has to be entered again before finishing */
+  passwordRequired: boolean;
+  expiryPreset: ExpiryPreset;
+  customExpiry: string;
+  maxDownloads: string;
+  /** missing in sessions saved before they were kept */
+  title?: string;
+  message?: string;
+  senderName?: string;
+};
+
+export type StoredUploadSession = {
+  transferId: string;
+  createdAt: number;
+  files: StoredUploadFile[];
+  /** missing in sessions saved before options were kept */
+  options?: StoredTransferOptions;
+  /** end-to-end encrypted; set by saveUploadSession */
+  encrypted?: boolean;
+  /**
+   * Key of an end-to-end encrypted transfer. Never written to localStorage:
+   * it is kept in sessionStorage (this tab only) so a reload can resume, and
+   * is missing when the session is opened anywhere else.
+   */
+  encryptionKey?: string;
+};
+
+const KEY_PREFIX = "swift-transfer:upload-session";
+
+// resumable upload URLs don't outlive this anyway
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+function key(uid: string) {
+  return `${KEY_PREFIX}:${uid}`;
+}
+
+function encryptionKeyKey(uid: string) {
+  return `${KEY_PREFIX}:key:${uid}`;
+}
+
+/** Identity of a local file across page loads (the File object itself is gone). */
+export function fileKey(f: { name: string; size: number; lastModified: number }) {
+  return `${f.name}|${f.size}|${f.lastModified}`;
+}
+
+/** fileKey of the local file behind a stored entry. */
+export function entryKey(e: StoredUploadFile) {
+  return fileKey({ ...e, name: e.localName ?? e.name });
+}
+
+export function loadUploadSession(uid: string): StoredUploadSession | null {
+  try {
+    const raw = localStorage.getItem(key(uid));
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as StoredUploadSession;
+    if (!parsed?.transferId || !Array.isArray(parsed.files)) return null;
+
+    if (!(parsed.createdAt > Date.now() - MAX_AGE_MS)) {
+      clearUploadSession(uid);
+      return null;
+    }
+    // older versions kept the key in localStorage: move it out
+    if (parsed.encryptionKey) saveUploadSession(uid, parsed);
+
+    const encryptionKey = parsed.encrypted
+      ? sessionStorage.getItem(encryptionKeyKey(uid)) ?? undefined
+      : undefined;
+    return { ...parsed, encrypted: parsed.encrypted || !!parsed.encryptionKey, encryptionKey };
+  } catch {
+    return null;
+  }
+}
+
+export function saveUploadSession(uid: string, session: StoredUploadSession) {
+  const { encryptionKey, ...rest } = session;
+  try {
+    if (encryptionKey) sessionStorage.setItem(encryptionKeyKey(uid), encryptionKey);
+    localStorage.setItem(
+      key(uid),
+      JSON.stringify({ ...rest, encrypted: rest.encrypted || !!encryptionKey })
+    );
+  } catch {
+    // quota / private mode: resuming after reload just won't be offered
+  }
+}
+
+/** Also forgets the encryption key; called on every finish and discard. */
+export function clearUploadSession(uid: string) {
+  localStorage.removeItem(key(uid));
+  sessionStorage.removeItem(encryptionKeyKey(uid));
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { createZipStream, type ZipEntry } from "./zipStream";
+
+function entry(name: string, content: string | Uint8Array, size?: number): ZipEntry {
+  const data = typeof content === "string" ? new TextEncoder().encode(content) : content;
+  return {
+    name,
+    size: size ?? data.length,
+    open: async () => new Blob([data as BlobPart]).stream(),
+  };
+}
+
+async function readZip(entries: ZipEntry[]) {
+  const buf = new Uint8Array(await new Response(createZipStream(entries)).arrayBuffer());
+  return { buf, view: new DataView(buf.buffer) };
+}
+
+describe("createZipStream", () => {
+  it("writes local headers, a central directory and an end record", async () => {
+    const { buf, view } = await readZip([
+      entry("hello.txt", "hello"),
+      entry("docs/ăîș.txt", "diacritice"),
+    ]);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+
+    const eocd = buf.length - 22;
+    expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+    expect(view.getUint16(eocd + 10, true)).toBe(2);
+
+    const cdSize = view.getUint32(eocd + 12, true);
+    const cdOffset = view.getUint32(eocd + 16, true);
+    expect(cdOffset + cdSize).toBe(eocd);
+
+    const names: string[] = [];
+    let pos = cdOffset;
+    for (let i = 0; i < 2; i++) {
+      expect(view.getUint32(pos, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(pos + 28, true);
+      const extraLength = view.getUint16(pos + 30, true);
+      names.push(new TextDecoder().decode(buf.subarray(pos + 46, pos + 46 + nameLength)));
+      if (i === 0) {
+        expect(view.getUint32(pos + 16, true)).toBe(0x3610a686); // crc32("hello")
+        expect(view.getUint32(pos + 20, true)).toBe(5);
+        expect(view.getUint32(pos + 42, true)).toBe(0);
+      }
+      pos += 46 + nameLength + extraLength;
+    }
+    expect(names).toEqual(["hello.txt", "docs/ăîș.txt"]);
+  });
+
+  it("stores entry data uncompressed right after the local header", async () => {
+    const { buf, view } = await readZip([entry("/a.txt", "abc")]);
+    const nameLength = view.getUint16(26, true);
+    expect(new TextDecoder().decode(buf.subarray(30, 30 + nameLength))).toBe("a.txt");
+    expect(new TextDecoder().decode(buf.subarray(30 + nameLength, 33 + nameLength))).toBe("abc");
+  });
+
+  it("produces a valid archive with no entries", async () => {
+    const { buf, view } = await readZip([]);
+    expect(buf.length).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054b50);
+  });
+
+  it("fails when an entry is shorter than announced", async () => {
+    await expect(readZip([entry("short.txt", "abc", 10)])).rejects.toThrow(
+      "short.txt: expected 10 bytes, got 3."
+    );
+  });
+});
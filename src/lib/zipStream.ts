@@ -0,0 +1,198 @@
+// Streaming ZIP writer (no compression) for archives built in the browser.
+// Entries are written one after another as they are read, so memory stays flat;
+// ZIP64 records are added only when a size or offset needs them.
+
+export type ZipEntry = {
+  /** Path inside the archive, `/`-separated. */
+  name: string;
+  size: number;
+  open: () => Promise<ReadableStream<Uint8Array>>;
+};
+
+const MAX_32 = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(crc: number, bytes: Uint8Array) {
+  let c = crc ^ MAX_32;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ MAX_32) >>> 0;
+}
+
+/** Little-endian record builder. */
+function record(size: number, write: (v: DataView) => void) {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+}
+
+function dosDateTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+// bit 3: CRC and sizes follow the data; bit 11: UTF-8 names
+const FLAGS = 0x0808;
+
+async function* zipChunks(entries: ZipEntry[]) {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name.replace(/^\/+/, ""));
+    const zip64 = entry.size >= MAX_32 || offset >= MAX_32;
+    const version = zip64 ? 45 : 20;
+    const localOffset = offset;
+
+    const local = record(30, (v) => {
+      v.setUint32(0, 0x04034b50, true);
+      v.setUint16(4, version, true);
+      v.setUint16(6, FLAGS, true);
+      v.setUint16(8, 0, true);
+      v.setUint16(10, time, true);
+      v.setUint16(12, date, true);
+      v.setUint32(18, zip64 ? MAX_32 : 0, true);
+      v.setUint32(22, zip64 ? MAX_32 : 0, true);
+      v.setUint16(26, name.length, true);
+      v.setUint16(28, zip64 ? 20 : 0, true);
+    });
+    const localExtra = zip64
+      ? record(20, (v) => {
+          v.setUint16(0, 0x0001, true);
+          v.setUint16(2, 16, true);
+        })
+      : new Uint8Array(0);
+
+    yield local;
+    yield name;
+    yield localExtra;
+    offset += local.length + name.length + localExtra.length;
+
+    let crc = 0;
+    let written = 0;
+    const reader = (await entry.open()).getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        crc = crc32(crc, value);
+        written += value.length;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+    if (written !== entry.size) {
+      throw new Error(`${entry.name}: expected ${entry.size} bytes, got ${written}.`);
+    }
+    offset += written;
+
+    const descriptor = zip64
+      ? record(24, (v) => {
+          v.setUint32(0, 0x08074b50, true);
+          v.setUint32(4, crc, true);
+          v.setBigUint64(8, BigInt(written), true);
+          v.setBigUint64(16, BigInt(written), true);
+        })
+      : record(16, (v) => {
+          v.setUint32(0, 0x08074b50, true);
+          v.setUint32(4, crc, true);
+          v.setUint32(8, written, true);
+          v.setUint32(12, written, true);
+        });
+    yield descriptor;
+    offset += descriptor.length;
+
+    const header = record(46, (v) => {
+      v.setUint32(0, 0x02014b50, true);
+      v.setUint16(4, 45, true);
+      v.setUint16(6, version, true);
+      v.setUint16(8, FLAGS, true);
+      v.setUint16(10, 0, true);
+      v.setUint16(12, time, true);
+      v.setUint16(14, date, true);
+      v.setUint32(16, crc, true);
+      v.setUint32(20, zip64 ? MAX_32 : written, true);
+      v.setUint32(24, zip64 ? MAX_32 : written, true);
+      v.setUint16(28, name.length, true);
+      v.setUint16(30, zip64 ? 28 : 0, true);
+      v.setUint32(42, zip64 ? MAX_32 : localOffset, true);
+    });
+    const extra = zip64
+      ? record(28, (v) => {
+          v.setUint16(0, 0x0001, true);
+          v.setUint16(2, 24, true);
+          v.setBigUint64(4, BigInt(written), true);
+          v.setBigUint64(12, BigInt(written), true);
+          v.setBigUint64(20, BigInt(localOffset), true);
+        })
+      : new Uint8Array(0);
+    central.push(header, name, extra);
+  }
+
+  const cdOffset = offset;
+  let cdSize = 0;
+  for (const part of central) {
+    yield part;
+    cdSize += part.length;
+  }
+
+  const count = entries.length;
+  const needs64 = count >= 0xffff || cdOffset >= MAX_32 || cdSize >= MAX_32;
+
+  if (needs64) {
+    const eocd64Offset = cdOffset + cdSize;
+    yield record(56, (v) => {
+      v.setUint32(0, 0x06064b50, true);
+      v.setBigUint64(4, 44n, true);
+      v.setUint16(12, 45, true);
+      v.setUint16(14, 45, true);
+      v.setBigUint64(24, BigInt(count), true);
+      v.setBigUint64(32, BigInt(count), true);
+      v.setBigUint64(40, BigInt(cdSize), true);
+      v.setBigUint64(48, BigInt(cdOffset), true);
+    });
+    yield record(20, (v) => {
+      v.setUint32(0, 0x07064b50, true);
+      v.setBigUint64(8, BigInt(eocd64Offset), true);
+      v.setUint32(16, 1, true);
+    });
+  }
+
+  yield record(22, (v) => {
+    v.setUint32(0, 0x06054b50, true);
+    v.setUint16(8, needs64 ? 0xffff : count, true);
+    v.setUint16(10, needs64 ? 0xffff : count, true);
+    v.setUint32(12, needs64 ? MAX_32 : cdSize, true);
+    v.setUint32(16, needs64 ? MAX_32 : cdOffset, true);
+  });
+}
+
+/** A ZIP archive of `entries`, produced lazily as the stream is read. */
+export function createZipStream(entries: ZipEntry[]): ReadableStream<Uint8Array> {
+  const it = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        const { done, value } = await it.next();
+        if (done) return controller.close();
+        if (value.length) return controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await it.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,425 @@
+export const en = {
+  // Common
+  "common.cancel": "Cancel",
+  "common.confirm": "Confirm",
+  "common.working": "Working...",
+  "common.close": "Close",
+  "common.copy": "Copy",
+  "common.copied": "Copied!",
+  "common.open": "Open",
+  "common.download": "Download",
+  "common.loading": "Loading...",
+  "common.unknownError": "Unknown error",
+  "common.language": "Language",
+  "common.feedback": "Share feedback",
+  "common.missingTransferId": "Missing transferId in URL.",
+
+  // Top bar
+  "topbar.notSignedIn": "Not signed in",
+  "topbar.home": "Home",
+  "topbar.myUploads": "My uploads",
+  "topbar.signOut": "Sign out",
+  "topbar.settings": "Settings",
+
+  // Auth page
+  "auth.signIn": "Sign in",
+  "auth.createAccount": "Create account",
+  "auth.signUp": "Sign up",
+  "auth.continueWithGoogle": "Continue with Google",
+  "auth.forgotPassword": "Forgot password?",
+  "auth.or": "or",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.needAccount": "Need an account? Sign up",
+  "auth.haveAccount": "Have an account? Sign in",
+  "auth.missingCredentials": "Insert email + password",
+  "auth.loggedIn": "✅ Logged in",
+  "auth.accountCreated": "✅ Account created. Check your inbox to verify your email.",
+  "auth.failed": "Auth failed",
+  "auth.enterEmailFirst": "Enter your email first.",
+  "auth.resetSent": "✅ Password reset email sent. Check your inbox.",
+  "auth.resetFailed": "Could not send reset email.",
+  "auth.sessionExpired": "Your session has expired.",
+  "auth.sessionExpiredHint": "Sign in again to continue.",
+  "auth.providerFailed": "Sign-in failed",
+  "auth.redirecting": "Popups are blocked, redirecting to sign in...",
+  "auth.useLink": "Email me a sign-in link instead",
+  "auth.usePassword": "Use a password instead",
+  "auth.sendLink": "Send sign-in link",
+  "auth.linkSent": "✅ Sign-in link sent to {email}. Open it on this device to continue.",
+  "auth.confirmLinkTitle": "Confirm your email",
+  "auth.confirmLinkHint": "This sign-in link was opened on a different device. Enter the email address it was sent to.",
+  "auth.confirmLink": "Sign in",
+  "auth.error.invalidEmail": "That email address doesn't look right.",
+  "auth.error.userDisabled": "This account has been disabled.",
+  "auth.error.wrongCredentials": "Wrong email or password.",
+  "auth.error.emailInUse": "An account with this email already exists. Sign in instead.",
+  "auth.error.weakPassword": "Choose a password of at least 6 characters.",
+  "auth.error.tooManyRequests": "Too many attempts. Wait a few minutes and try again.",
+  "auth.error.network": "Network error. Check your connection and try again.",
+  "auth.error.popupClosed": "The sign-in window was closed before finishing.",
+  "auth.error.differentProvider": "This email is already linked to another sign-in method. Use that one.",
+  "auth.error.linkInvalid": "This sign-in link is invalid or has expired. Request a new one.",
+  "auth.error.providerDisabled": "This sign-in method isn't available right now.",
+  "auth.error.recentLogin": "Please sign in again to continue.",
+
+  // Transfer status
+  "status.ready": "ready",
+  "status.draft": "draft",
+  "status.expired": "expired",
+  "status.revoked": "revoked",
+  "status.unknown": "unknown",
+
+  // Email verification
+  "verify.title": "Verify your email to start uploading",
+  "verify.body": "We sent a verification link to {email}. Open it, then come back here.",
+  "verify.check": "I've verified my email",
+  "verify.resend": "Resend link",
+  "verify.sent": "Verification link sent to {email}.",
+  "verify.sendFailed": "Could not send the verification email.",
+  "verify.notYet": "Your email isn't verified yet. Open the link in the email first.",
+
+  // Upload page
+  "upload.subtitle": "Upload files, generate a share link, and send it via email.",
+  "upload.dropToAdd": "Drop to add",
+  "upload.chooseFiles": "Choose files",
+  "upload.dropHint": "Click to select files or drag & drop files and folders",
+  "upload.chooseFolder": "or choose a whole folder",
+  "upload.uploading": "Uploading...",
+  "upload.finalizing": "Finalizing...",
+  "upload.upload": "Upload",
+  "upload.clearAll": "Clear all",
+  "upload.parallel": "Parallel uploads",
+  "upload.failedSummary": "{failed} file(s) could not be uploaded. Retry only those, or finish the transfer with the {done} file(s) that made it.",
+  "upload.retryFailed": "Retry failed ({count})",
+  "upload.finishWithout": "Finish without them",
+  "upload.unfinished": "Unfinished transfer from {date}: {done}/{total} file(s) uploaded. Re-select the remaining files to resume.",
+  "upload.resume": "Resume transfer",
+  "upload.discard": "Discard",
+  "upload.timeLeft": "{eta} left",
+  "upload.remove": "Remove",
+  "upload.file.uploaded": "Uploaded",
+  "upload.file.cancelled": "Cancelled",
+  "upload.file.failed": "Failed",
+  "upload.file.retrying": "Retrying...",
+  "upload.options": "Transfer options",
+  "upload.passwordLabel": "Password (optional)",
+  "upload.passwordPlaceholder": "Recipients must enter it to download",
+  "upload.maxDownloadsLabel": "Max downloads (optional)",
+  "upload.unlimited": "Unlimited",
+  "upload.encrypt": "End-to-end encrypt",
+  "upload.encryptHint": "Files are encrypted in your browser. The key is only in the share link, so it can't be recovered if the link is lost.",
+  "upload.expiresAfter": "Link expires after",
+  "upload.shareLink": "Share link",
+  "upload.status.retrying": "Retrying {name} (attempt {attempt})...",
+  "upload.status.uploaded": "Uploaded {done}/{total}: {name}",
+  "upload.status.finalizing": "Finalizing transfer (generating share link)...",
+  "upload.status.complete": "Upload complete. Share link generated!",
+  "upload.status.uploading": "Init OK. Uploading {count} file(s)...",
+  "upload.status.resuming": "Resuming {count} file(s)...",
+  "upload.error.allCancelled": "All uploads were cancelled.",
+  "upload.error.missingShareUrl": "Complete response missing shareUrl.",
+  "upload.error.dropFailed": "Could not read the dropped files.",
+  "upload.error.someFailed": "{count} file(s) failed to upload. Retry them or finish without them.",
+  "upload.error.noFiles": "Select at least one file.",
+  "upload.error.passwordTooShort": "Password must be at least {min} characters.",
+  "upload.error.expiryInPast": "Pick an expiry date in the future.",
+  "upload.error.maxDownloads": "Maximum downloads must be a whole number of at least 1.",
+  "upload.error.missingUploads": "Init response missing uploads.",
+  "upload.email.title": "Send share link by email",
+  "upload.email.encryptedNote": "Emailing the link would send the key through our servers, so share this link yourself. It is not saved anywhere else.",
+  "upload.email.recipientsPlaceholder": "Recipients: paste or type addresses, separated by commas or new lines",
+  "upload.email.invalidAddress": "Not a valid email address",
+  "upload.email.recent": "Recent:",
+  "upload.email.messagePlaceholder": "Optional message...",
+  "upload.email.sending": "Sending...",
+  "upload.email.sendTo": "Send to {count}",
+  "upload.email.send": "Send",
+  "upload.email.noLink": "There is no share link yet.",
+  "upload.email.invalid": "Invalid addresses: {emails}",
+  "upload.email.noRecipients": "Enter at least one email address.",
+  "upload.email.tooMany": "You can send to at most {max} addresses at once.",
+  "upload.email.partial": "Sent to {sent}, failed for {failed}.",
+  "upload.email.sent": "Email sent to {count} recipient(s)!",
+  "upload.email.failed": "Email failed",
+
+  // Expiry presets
+  "expiry.1d": "1 day",
+  "expiry.7d": "7 days",
+  "expiry.30d": "30 days",
+  "expiry.custom": "Custom date",
+
+  // Transfer page
+  "transfer.title": "Transfer",
+  "transfer.loading": "Loading transfer...",
+  "transfer.received": "{loaded} received",
+  "transfer.timeLeft": "{eta} left",
+  "transfer.passwordProtected": "This transfer is password protected",
+  "transfer.passwordProtectedShort": "Password protected",
+  "transfer.passwordHint": "Enter the password you received from the sender to see and download the files.",
+  "transfer.password": "Password",
+  "transfer.checking": "Checking...",
+  "transfer.unlock": "Unlock",
+  "transfer.wrongPassword": "Wrong password.",
+  "transfer.unlockFailed": "Unlock failed",
+  "transfer.fileN": "file {n}",
+  "transfer.missingKeyError": "This link is missing its decryption key.",
+  "transfer.emptyResponse": "Download failed: empty response.",
+  "transfer.downloadFailed": "Download failed",
+  "transfer.zipFailed": "ZIP download failed",
+  "transfer.allFilesZip": "All files (ZIP)",
+  "transfer.encrypted": "End-to-end encrypted",
+  "transfer.filesSummary": "{count} file(s) • {size}",
+  "transfer.ownerView": "Owner view",
+  "transfer.back": "Back",
+  "transfer.created": "Created:",
+  "transfer.expires": "Expires:",
+  "transfer.downloadsLeft": "Downloads left:",
+  "transfer.nOfMax": "{n} of {max}",
+  "transfer.expired": "This transfer is expired.",
+  "transfer.limitReached": "The download limit for this transfer has been reached.",
+  "transfer.missingKey": "This link is missing its decryption key (the part after \"#\"). Ask the sender for the full link.",
+  "transfer.encryptedHint": "Files are decrypted in your browser. The .zip archive is built on your device.",
+  "transfer.downloadHint": "You can download files individually or all at once as a single .zip archive.",
+  "transfer.preparing": "Preparing...",
+  "transfer.downloadAll": "Download all (ZIP)",
+  "transfer.downloading": "Downloading {name}",
+  "transfer.files": "Files",
+  "transfer.mismatchTitle": "Checksum mismatch: the downloaded data is not what was uploaded",
+  "transfer.mismatchBody": "{files} may be corrupted or tampered with. Delete the downloaded copy and try again, or contact the sender.",
+  "transfer.manualVerify": "This browser saves files directly, so they can't be verified automatically. Compare the SHA-256 below with the file on your device (e.g. sha256sum).",
+  "transfer.hashTitle": "{hash} (click to copy)",
+  "transfer.verified": "Verified",
+  "transfer.mismatch": "Mismatch",
+  "transfer.preview": "Preview",
+  "transfer.generating": "Generating...",
+  "transfer.noFiles": "No files found for this transfer.",
+
+  // Transfer details page
+  "details.title": "Transfer details",
+  "details.loading": "Loading transfer...",
+  "details.ownerOnly": "Only the person who uploaded this transfer can see its details.",
+  "details.openDownloadPage": "Open download page",
+  "details.backToUploads": "← My uploads",
+  "details.recipientView": "Recipient view",
+  "details.status": "Status",
+  "details.totalDownloads": "Total downloads",
+  "details.downloadLimit": "Download limit",
+  "details.unlimited": "Unlimited",
+  "details.emailsSent": "Emails sent",
+  "details.created": "Created:",
+  "details.expires": "Expires:",
+  "details.password": "Password:",
+  "details.passwordYes": "🔒 Yes",
+  "details.no": "No",
+  "details.encryption": "Encryption:",
+  "details.encryptionE2e": "🔐 End-to-end",
+  "details.encryptionNone": "None",
+  "details.files": "Files",
+  "details.downloadCount": "Downloads: {count}",
+  "details.lastDownload": "last {date}",
+  "details.zipCount": "Downloaded as ZIP {count} time(s).",
+  "details.allFilesZip": "All files (ZIP)",
+  "details.fileN": "File {n}",
+  "details.downloadHistory": "Download history",
+  "details.anonymous": "Anonymous",
+  "details.noDownloads": "No downloads yet.",
+  "details.emailHistory": "Email history",
+  "details.emailSent": "Sent",
+  "details.emailFailed": "Failed",
+  "details.noEmails": "No emails sent yet.",
+
+  // My uploads
+  "uploads.title": "My uploads",
+  "uploads.subtitle": "Your recent transfers. Copy a link or open the download page.",
+  "uploads.searchPlaceholder": "Search file names...",
+  "uploads.sort.newest": "Newest first",
+  "uploads.sort.oldest": "Oldest first",
+  "uploads.sort.expiring": "Expiring soonest",
+  "uploads.sort.largest": "Largest first",
+  "uploads.sort.smallest": "Smallest first",
+  "uploads.filter.all": "All",
+  "uploads.filter.ready": "Ready",
+  "uploads.filter.draft": "Draft",
+  "uploads.filter.expired": "Expired",
+  "uploads.delete.title": "Delete transfer?",
+  "uploads.delete.description": "The files are removed and the share link stops working. This cannot be undone.",
+  "uploads.delete.confirm": "Delete",
+  "uploads.expiry.title": "Change expiry",
+  "uploads.expiry.description": "The link works until the end of the day you pick.",
+  "uploads.expiry.confirm": "Save",
+  "uploads.revoke.title": "Revoke link?",
+  "uploads.revoke.description": "Recipients will no longer be able to open or download this transfer. You can generate a new link later.",
+  "uploads.revoke.confirm": "Revoke",
+  "uploads.regenerate.title": "Generate a new link?",
+  "uploads.regenerate.description": "The current link stops working. Share the new one with your recipients.",
+  "uploads.regenerate.confirm": "Generate",
+  "uploads.emailHistory": "Email history",
+  "uploads.historyFailed": "Failed to load history",
+  "uploads.noEmails": "This transfer hasn't been emailed yet.",
+  "uploads.emailFailed": "Failed",
+  "uploads.emailSent": "Sent",
+  "uploads.loadFailed": "Failed to load uploads",
+  "uploads.loadMoreFailed": "Could not load more",
+  "uploads.pickFutureDate": "Pick a date in the future.",
+  "uploads.toast.deleted": "Transfer deleted",
+  "uploads.toast.expiryUpdated": "Expiry updated",
+  "uploads.toast.expiresOn": "The link now expires {date}.",
+  "uploads.toast.revoked": "Link revoked",
+  "uploads.toast.revokedDescription": "The share link no longer works.",
+  "uploads.toast.regenerated": "New link generated",
+  "uploads.toast.regeneratedDescription": "The old link no longer works.",
+  "uploads.toast.actionFailed": "Action failed",
+  "uploads.noMatches": "No transfers match these filters.",
+  "uploads.empty": "No uploads yet. Go to Home/Upload and create your first transfer link.",
+  "uploads.oneFile": "1 file",
+  "uploads.nFiles": "{n} files",
+  "uploads.encryptedTitle": "End-to-end encrypted: the key is only in the link you shared",
+  "uploads.details": "Details",
+  "uploads.emails": "Emails",
+  "uploads.changeExpiry": "Change expiry",
+  "uploads.revokeLink": "Revoke link",
+  "uploads.newLink": "New link",
+  "uploads.copyLink": "Copy link",
+  "uploads.shareQr": "Share / QR",
+  "uploads.loadMore": "Load more",
+  "uploads.shareEncryptedNote": "End-to-end encrypted: this link has no decryption key. Share the full link you saved when uploading.",
+
+  // Share panel
+  "share.title": "Share transfer",
+  "share.qrAlt": "QR code for the share link",
+  "share.share": "Share…",
+  "share.qrPng": "QR as PNG",
+  "share.qrSvg": "QR as SVG",
+
+  // File preview
+  "preview.unsupported": "No preview is available for this file type.",
+  "preview.tooLarge": "This file is too large to preview ({size}).",
+  "preview.failed": "Preview failed",
+  "preview.cantPlay": "Your browser can't play this file.",
+  "preview.loading": "Loading preview...",
+
+  // Settings
+  "settings.title": "Settings",
+  "settings.save": "Save",
+  "settings.profile.title": "Profile",
+  "settings.profile.displayName": "Display name",
+  "settings.profile.displayNamePlaceholder": "How recipients see you",
+  "settings.profile.saved": "Profile updated",
+  "settings.profile.failed": "Could not update the profile",
+  "settings.password.change": "Change password",
+  "settings.password.set": "Set a password",
+  "settings.password.setHint": "You sign in without a password today. Setting one lets you also sign in with your email and password.",
+  "settings.password.current": "Current password",
+  "settings.password.new": "New password",
+  "settings.password.confirm": "Repeat new password",
+  "settings.password.mismatch": "The new passwords don't match.",
+  "settings.password.saved": "Password saved",
+  "settings.password.failed": "Could not save the password",
+  "settings.providers.title": "Sign-in methods",
+  "settings.providers.password": "Email and password",
+  "settings.providers.connected": "Connected",
+  "settings.providers.link": "Connect",
+  "settings.providers.unlink": "Disconnect",
+  "settings.providers.linked": "{provider} connected",
+  "settings.providers.unlinked": "{provider} disconnected",
+  "settings.providers.failed": "Could not change sign-in methods",
+  "settings.providers.lastOne": "Your only sign-in method can't be disconnected.",
+  "settings.defaults.title": "Upload defaults",
+  "settings.defaults.emailMessage": "Default email message",
+  "settings.defaults.saved": "Defaults saved",
+  "settings.delete.title": "Delete account",
+  "settings.delete.description": "Your account is removed for good. Your uploads are deleted first, or handed over to another account.",
+  "settings.delete.button": "Delete account",
+  "settings.delete.confirmTitle": "Delete your account?",
+  "settings.delete.confirmDescription": "This cannot be undone. Choose what happens to your uploads.",
+  "settings.delete.deleteUploads": "Delete all my uploads",
+  "settings.delete.transferUploads": "Hand my uploads over to another account",
+  "settings.delete.transferTo": "Email of the new owner",
+  "settings.delete.typeToConfirm": "Type {text} to confirm",
+  "settings.delete.confirmPhrase": "delete my account",
+  "settings.delete.recentLogin": "For your security, sign out and sign in again, then delete the account within 5 minutes.",
+  "settings.delete.listing": "Listing your uploads...",
+  "settings.delete.deletingUploads": "Deleting uploads ({done}/{total})...",
+  "settings.delete.transferringUploads": "Handing over uploads ({done}/{total})...",
+  "settings.delete.deletingAccount": "Deleting account...",
+  "settings.delete.done": "Your account was deleted",
+  "settings.delete.failed": "Could not delete the account",
+
+  // Offline / PWA
+  "upload.offline": "You're offline. Uploads pause and continue on their own when the connection is back.",
+  "upload.file.offline": "waiting for connection",
+  "upload.status.waitingForNetwork": "Waiting for the connection to come back…",
+  "upload.error.sharedFailed": "Could not read the shared files.",
+  "uploads.savedCopyOffline": "You're offline. Showing the list as of {date}.",
+  "uploads.savedCopy": "Could not refresh the list. Showing it as of {date}.",
+
+  // Upload policy
+  "upload.policy.blockedType": ".{extension} files can't be uploaded",
+  "upload.policy.fileTooLarge": "Larger than the {max} per-file limit",
+  "upload.policy.tooManyFiles": "Over the limit of {max} files per transfer",
+  "upload.policy.totalTooLarge": "Doesn't fit in the {max} per-transfer limit",
+  "upload.policy.summary": "Files that break the upload limits: {count}. They are marked below and will be left out; remove them or upload the rest.",
+  "upload.error.noAllowedFiles": "None of the selected files can be uploaded. See the reasons next to each file.",
+  "upload.error.rejectedBySize": "The server rejected the transfer because it is too large. Remove some files and try again.",
+
+  // Duplicates
+  "upload.duplicates.title": "Already in the list: {count}",
+  "upload.duplicates.description": "These files match files you already added. What should happen to the new copies?",
+  "upload.duplicates.more": "…and {count} more",
+  "upload.duplicates.skip": "Skip",
+  "upload.duplicates.replace": "Replace",
+  "upload.duplicates.keep": "Keep both",
+  "upload.duplicates.compare": "Compare contents",
+  "upload.duplicates.compareHint": "Also treat files with identical contents as duplicates, whatever their names. Large files take a while to check.",
+  "upload.duplicates.checking": "Checking for duplicates…",
+  "upload.duplicates.remove": "Remove duplicates",
+  "upload.duplicates.removed": "Removed duplicates: {count}",
+  "upload.duplicates.none": "No duplicates found",
+
+  // Rename / reorder / notes
+  "upload.rename.label": "Rename",
+  "upload.rename.original": "Original name: {name}",
+  "upload.rename.invalid": "A file name can't contain / or \\.",
+  "upload.rename.taken": "Another file in this folder is already named {name}.",
+  "upload.notePlaceholder": "Note for recipients (optional)",
+  "upload.moveUp": "Move up",
+  "upload.moveDown": "Move down",
+  "upload.dragToReorder": "Drag to reorder",
+
+  // Title / message / sender
+  "upload.titleLabel": "Title (optional)",
+  "upload.titlePlaceholder": "e.g. Wedding photos",
+  "upload.senderLabel": "Your name (optional)",
+  "upload.senderPlaceholder": "Shown to recipients as the sender",
+  "upload.messageLabel": "Message (optional)",
+  "upload.messagePlaceholder": "A few words for the recipients",
+  "upload.messageHint": "Supports **bold**, *italic*, `code`, links and \"- \" lists.",
+  "upload.messageNotEncrypted": "The title, message and your name are not encrypted.",
+  "transfer.from": "From {name}",
+
+  // Resume options
+  "upload.error.resumePassword": "This upload was password-protected. Enter the password again under Transfer options before finishing it.",
+  "upload.resumePasswordHint": "Protected by a password: enter it again under Transfer options, then resume.",
+  "upload.resumeOptionsLost": "The password, expiry and download limit of this upload were not saved. Check the options below before resuming; the transfer is published with them.",
+
+  // Resume key
+  "upload.error.resumeKey": "This encrypted upload can only be resumed in the tab it was started in: its key is never saved on disk. Discard it and upload again.",
+
+  // Delete account re-auth
+  "settings.delete.reauthToFinish": "Sign in again to finish deleting your account",
+  "settings.delete.reauthToFinishHint": "Your uploads were handled, but that took longer than the sign-in stays valid for. Sign in, open Settings and delete the account again.",
+
+  // Client-side errors
+  "error.sessionExpired": "Your session has expired. Please sign in again.",
+  "error.offline": "You're offline.",
+  "error.notAuthenticated": "You're not signed in.",
+  "e2e.error.decrypt": "Could not decrypt the file. The link key is wrong or the file is damaged.",
+  "e2e.error.malformedKey": "The decryption key in the link is malformed.",
+  "e2e.error.notEncrypted": "This file is not in the expected encrypted format.",
+
+  // Clipboard
+  "common.copyFailed": "Couldn't copy. Select the text and copy it by hand.",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,425 @@
+import type { MessageKey } from "./en";
+
+export const ro: Record<MessageKey, string> = {
+  // Common
+  "common.cancel": "Anulează",
+  "common.confirm": "Confirmă",
+  "common.working": "Se procesează...",
+  "common.close": "Închide",
+  "common.copy": "Copiază",
+  "common.copied": "Copiat!",
+  "common.open": "Deschide",
+  "common.download": "Descarcă",
+  "common.loading": "Se încarcă...",
+  "common.unknownError": "Eroare necunoscută",
+  "common.language": "Limbă",
+  "common.feedback": "Trimite feedback",
+  "common.missingTransferId": "Lipsește transferId din URL.",
+
+  // Top bar
+  "topbar.notSignedIn": "Neautentificat",
+  "topbar.home": "Acasă",
+  "topbar.myUploads": "Încărcările mele",
+  "topbar.signOut": "Deconectare",
+  "topbar.settings": "Setări",
+
+  // Auth page
+  "auth.signIn": "Autentificare",
+  "auth.createAccount": "Creează cont",
+  "auth.signUp": "Înregistrare",
+  "auth.continueWithGoogle": "Continuă cu Google",
+  "auth.forgotPassword": "Ai uitat parola?",
+  "auth.or": "sau",
+  "auth.email": "Email",
+  "auth.password": "Parolă",
+  "auth.needAccount": "Nu ai cont? Înregistrează-te",
+  "auth.haveAccount": "Ai deja cont? Autentifică-te",
+  "auth.missingCredentials": "Introdu emailul și parola",
+  "auth.loggedIn": "✅ Autentificat",
+  "auth.accountCreated": "✅ Cont creat. Verifică-ți inboxul pentru a confirma adresa de email.",
+  "auth.failed": "Autentificarea a eșuat",
+  "auth.enterEmailFirst": "Introdu mai întâi adresa de email.",
+  "auth.resetSent": "✅ Emailul de resetare a parolei a fost trimis. Verifică-ți inboxul.",
+  "auth.resetFailed": "Nu am putut trimite emailul de resetare.",
+  "auth.sessionExpired": "Sesiunea ta a expirat.",
+  "auth.sessionExpiredHint": "Autentifică-te din nou pentru a continua.",
+  "auth.providerFailed": "Autentificarea a eșuat",
+  "auth.redirecting": "Ferestrele pop-up sunt blocate, te redirecționăm pentru autentificare...",
+  "auth.useLink": "Trimite-mi un link de autentificare pe email",
+  "auth.usePassword": "Folosește o parolă",
+  "auth.sendLink": "Trimite linkul de autentificare",
+  "auth.linkSent": "✅ Linkul de autentificare a fost trimis la {email}. Deschide-l pe acest dispozitiv pentru a continua.",
+  "auth.confirmLinkTitle": "Confirmă adresa de email",
+  "auth.confirmLinkHint": "Linkul de autentificare a fost deschis pe alt dispozitiv. Introdu adresa de email la care a fost trimis.",
+  "auth.confirmLink": "Autentificare",
+  "auth.error.invalidEmail": "Adresa de email nu pare corectă.",
+  "auth.error.userDisabled": "Acest cont a fost dezactivat.",
+  "auth.error.wrongCredentials": "Email sau parolă greșită.",
+  "auth.error.emailInUse": "Există deja un cont cu acest email. Autentifică-te.",
+  "auth.error.weakPassword": "Alege o parolă de cel puțin 6 caractere.",
+  "auth.error.tooManyRequests": "Prea multe încercări. Așteaptă câteva minute și încearcă din nou.",
+  "auth.error.network": "Eroare de rețea. Verifică conexiunea și încearcă din nou.",
+  "auth.error.popupClosed": "Fereastra de autentificare a fost închisă înainte de final.",
+  "auth.error.differentProvider": "Acest email este deja asociat altei metode de autentificare. Folosește-o pe aceea.",
+  "auth.error.linkInvalid": "Linkul de autentificare este invalid sau a expirat. Cere unul nou.",
+  "auth.error.providerDisabled": "Această metodă de autentificare nu este disponibilă momentan.",
+  "auth.error.recentLogin": "Autentifică-te din nou pentru a continua.",
+
+  // Transfer status
+  "status.ready": "gata",
+  "status.draft": "ciornă",
+  "status.expired": "expirat",
+  "status.revoked": "revocat",
+  "status.unknown": "necunoscut",
+
+  // Email verification
+  "verify.title": "Confirmă adresa de email pentru a începe să încarci",
+  "verify.body": "Am trimis un link de confirmare la {email}. Deschide-l, apoi revino aici.",
+  "verify.check": "Mi-am confirmat adresa",
+  "verify.resend": "Retrimite linkul",
+  "verify.sent": "Linkul de confirmare a fost trimis la {email}.",
+  "verify.sendFailed": "Emailul de confirmare nu a putut fi trimis.",
+  "verify.notYet": "Adresa nu este confirmată încă. Deschide mai întâi linkul din email.",
+
+  // Upload page
+  "upload.subtitle": "Încarcă fișiere, generează un link de partajare și trimite-l pe email.",
+  "upload.dropToAdd": "Eliberează pentru a adăuga",
+  "upload.chooseFiles": "Alege fișiere",
+  "upload.dropHint": "Click pentru a selecta fișiere sau trage aici fișiere și foldere",
+  "upload.chooseFolder": "sau alege un folder întreg",
+  "upload.uploading": "Se încarcă...",
+  "upload.finalizing": "Se finalizează...",
+  "upload.upload": "Încarcă",
+  "upload.clearAll": "Golește tot",
+  "upload.parallel": "Încărcări în paralel",
+  "upload.failedSummary": "{failed} fișier(e) nu au putut fi încărcate. Reîncearcă doar pentru ele sau finalizează transferul cu cele {done} fișier(e) încărcate.",
+  "upload.retryFailed": "Reîncearcă eșuatele ({count})",
+  "upload.finishWithout": "Finalizează fără ele",
+  "upload.unfinished": "Transfer neterminat din {date}: {done}/{total} fișier(e) încărcate. Selectează din nou fișierele rămase pentru a continua.",
+  "upload.resume": "Continuă transferul",
+  "upload.discard": "Renunță",
+  "upload.timeLeft": "{eta} rămase",
+  "upload.remove": "Elimină",
+  "upload.file.uploaded": "Încărcat",
+  "upload.file.cancelled": "Anulat",
+  "upload.file.failed": "Eșuat",
+  "upload.file.retrying": "Se reîncearcă...",
+  "upload.options": "Opțiuni transfer",
+  "upload.passwordLabel": "Parolă (opțional)",
+  "upload.passwordPlaceholder": "Destinatarii trebuie să o introducă pentru descărcare",
+  "upload.maxDownloadsLabel": "Număr maxim de descărcări (opțional)",
+  "upload.unlimited": "Nelimitat",
+  "upload.encrypt": "Criptare end-to-end",
+  "upload.encryptHint": "Fișierele sunt criptate în browser. Cheia există doar în linkul de partajare, deci nu poate fi recuperată dacă linkul se pierde.",
+  "upload.expiresAfter": "Linkul expiră după",
+  "upload.shareLink": "Link de partajare",
+  "upload.status.retrying": "Se reîncearcă {name} (încercarea {attempt})...",
+  "upload.status.uploaded": "Încărcat {done}/{total}: {name}",
+  "upload.status.finalizing": "Se finalizează transferul (se generează linkul)...",
+  "upload.status.complete": "Încărcare finalizată. Linkul de partajare a fost generat!",
+  "upload.status.uploading": "Inițializare OK. Se încarcă {count} fișier(e)...",
+  "upload.status.resuming": "Se reiau {count} fișier(e)...",
+  "upload.error.allCancelled": "Toate încărcările au fost anulate.",
+  "upload.error.missingShareUrl": "Răspunsul de finalizare nu conține shareUrl.",
+  "upload.error.dropFailed": "Fișierele trase nu au putut fi citite.",
+  "upload.error.someFailed": "{count} fișier(e) nu s-au încărcat. Reîncearcă sau finalizează fără ele.",
+  "upload.error.noFiles": "Selectează cel puțin un fișier.",
+  "upload.error.passwordTooShort": "Parola trebuie să aibă cel puțin {min} caractere.",
+  "upload.error.expiryInPast": "Alege o dată de expirare din viitor.",
+  "upload.error.maxDownloads": "Numărul maxim de descărcări trebuie să fie un număr întreg, cel puțin 1.",
+  "upload.error.missingUploads": "Răspunsul de inițializare nu conține uploads.",
+  "upload.email.title": "Trimite linkul pe email",
+  "upload.email.encryptedNote": "Trimiterea pe email ar transmite cheia prin serverele noastre, așa că distribuie tu acest link. Nu este salvat în altă parte.",
+  "upload.email.recipientsPlaceholder": "Destinatari: lipește sau scrie adrese, separate prin virgulă sau rând nou",
+  "upload.email.invalidAddress": "Adresă de email invalidă",
+  "upload.email.recent": "Recente:",
+  "upload.email.messagePlaceholder": "Mesaj opțional...",
+  "upload.email.sending": "Se trimite...",
+  "upload.email.sendTo": "Trimite la {count}",
+  "upload.email.send": "Trimite",
+  "upload.email.noLink": "Nu există share link încă.",
+  "upload.email.invalid": "Adrese invalide: {emails}",
+  "upload.email.noRecipients": "Introdu cel puțin o adresă de email.",
+  "upload.email.tooMany": "Poți trimite la maximum {max} adrese odată.",
+  "upload.email.partial": "Trimis la {sent}, eșuat pentru {failed}.",
+  "upload.email.sent": "Email trimis la {count} destinatar(i)!",
+  "upload.email.failed": "Trimiterea emailului a eșuat",
+
+  // Expiry presets
+  "expiry.1d": "1 zi",
+  "expiry.7d": "7 zile",
+  "expiry.30d": "30 de zile",
+  "expiry.custom": "Dată personalizată",
+
+  // Transfer page
+  "transfer.title": "Transfer",
+  "transfer.loading": "Se încarcă transferul...",
+  "transfer.received": "{loaded} primiți",
+  "transfer.timeLeft": "{eta} rămase",
+  "transfer.passwordProtected": "Acest transfer este protejat cu parolă",
+  "transfer.passwordProtectedShort": "Protejat cu parolă",
+  "transfer.passwordHint": "Introdu parola primită de la expeditor pentru a vedea și descărca fișierele.",
+  "transfer.password": "Parolă",
+  "transfer.checking": "Se verifică...",
+  "transfer.unlock": "Deblochează",
+  "transfer.wrongPassword": "Parolă greșită.",
+  "transfer.unlockFailed": "Deblocarea a eșuat",
+  "transfer.fileN": "fișierul {n}",
+  "transfer.missingKeyError": "Acestui link îi lipsește cheia de decriptare.",
+  "transfer.emptyResponse": "Descărcarea a eșuat: răspuns gol.",
+  "transfer.downloadFailed": "Descărcarea a eșuat",
+  "transfer.zipFailed": "Descărcarea ZIP a eșuat",
+  "transfer.allFilesZip": "Toate fișierele (ZIP)",
+  "transfer.encrypted": "Criptat end-to-end",
+  "transfer.filesSummary": "{count} fișier(e) • {size}",
+  "transfer.ownerView": "Vedere proprietar",
+  "transfer.back": "Înapoi",
+  "transfer.created": "Creat:",
+  "transfer.expires": "Expiră:",
+  "transfer.downloadsLeft": "Descărcări rămase:",
+  "transfer.nOfMax": "{n} din {max}",
+  "transfer.expired": "Acest transfer a expirat.",
+  "transfer.limitReached": "Limita de descărcări pentru acest transfer a fost atinsă.",
+  "transfer.missingKey": "Acestui link îi lipsește cheia de decriptare (partea de după \"#\"). Cere expeditorului linkul complet.",
+  "transfer.encryptedHint": "Fișierele sunt decriptate în browser. Arhiva .zip este creată pe dispozitivul tău.",
+  "transfer.downloadHint": "Poți descărca fișierele individual sau pe toate odată, într-o singură arhivă .zip.",
+  "transfer.preparing": "Se pregătește...",
+  "transfer.downloadAll": "Descarcă tot (ZIP)",
+  "transfer.downloading": "Se descarcă {name}",
+  "transfer.files": "Fișiere",
+  "transfer.mismatchTitle": "Checksum diferit: datele descărcate nu sunt cele încărcate",
+  "transfer.mismatchBody": "{files} pot fi corupte sau modificate. Șterge copia descărcată și încearcă din nou, sau contactează expeditorul.",
+  "transfer.manualVerify": "Acest browser salvează fișierele direct, deci nu pot fi verificate automat. Compară SHA-256 de mai jos cu fișierul de pe dispozitiv (de ex. sha256sum).",
+  "transfer.hashTitle": "{hash} (click pentru copiere)",
+  "transfer.verified": "Verificat",
+  "transfer.mismatch": "Nu corespunde",
+  "transfer.preview": "Previzualizare",
+  "transfer.generating": "Se generează...",
+  "transfer.noFiles": "Nu au fost găsite fișiere pentru acest transfer.",
+
+  // Transfer details page
+  "details.title": "Detalii transfer",
+  "details.loading": "Se încarcă transferul...",
+  "details.ownerOnly": "Doar persoana care a încărcat acest transfer îi poate vedea detaliile.",
+  "details.openDownloadPage": "Deschide pagina de descărcare",
+  "details.backToUploads": "← Încărcările mele",
+  "details.recipientView": "Vizualizare destinatar",
+  "details.status": "Stare",
+  "details.totalDownloads": "Total descărcări",
+  "details.downloadLimit": "Limită de descărcări",
+  "details.unlimited": "Nelimitat",
+  "details.emailsSent": "Emailuri trimise",
+  "details.created": "Creat:",
+  "details.expires": "Expiră:",
+  "details.password": "Parolă:",
+  "details.passwordYes": "🔒 Da",
+  "details.no": "Nu",
+  "details.encryption": "Criptare:",
+  "details.encryptionE2e": "🔐 End-to-end",
+  "details.encryptionNone": "Niciuna",
+  "details.files": "Fișiere",
+  "details.downloadCount": "Descărcări: {count}",
+  "details.lastDownload": "ultima {date}",
+  "details.zipCount": "Descărcat ca ZIP de {count} ori.",
+  "details.allFilesZip": "Toate fișierele (ZIP)",
+  "details.fileN": "Fișierul {n}",
+  "details.downloadHistory": "Istoric descărcări",
+  "details.anonymous": "Anonim",
+  "details.noDownloads": "Nicio descărcare încă.",
+  "details.emailHistory": "Istoric emailuri",
+  "details.emailSent": "Trimis",
+  "details.emailFailed": "Eșuat",
+  "details.noEmails": "Niciun email trimis încă.",
+
+  // My uploads
+  "uploads.title": "Încărcările mele",
+  "uploads.subtitle": "Transferurile tale recente. Copiază un link sau deschide pagina de descărcare.",
+  "uploads.searchPlaceholder": "Caută după numele fișierelor...",
+  "uploads.sort.newest": "Cele mai noi",
+  "uploads.sort.oldest": "Cele mai vechi",
+  "uploads.sort.expiring": "Expiră cel mai curând",
+  "uploads.sort.largest": "Cele mai mari",
+  "uploads.sort.smallest": "Cele mai mici",
+  "uploads.filter.all": "Toate",
+  "uploads.filter.ready": "Gata",
+  "uploads.filter.draft": "Ciornă",
+  "uploads.filter.expired": "Expirate",
+  "uploads.delete.title": "Ștergi transferul?",
+  "uploads.delete.description": "Fișierele sunt șterse și linkul de partajare nu mai funcționează. Acțiunea nu poate fi anulată.",
+  "uploads.delete.confirm": "Șterge",
+  "uploads.expiry.title": "Schimbă expirarea",
+  "uploads.expiry.description": "Linkul funcționează până la sfârșitul zilei alese.",
+  "uploads.expiry.confirm": "Salvează",
+  "uploads.revoke.title": "Revoci linkul?",
+  "uploads.revoke.description": "Destinatarii nu vor mai putea deschide sau descărca acest transfer. Poți genera un link nou mai târziu.",
+  "uploads.revoke.confirm": "Revocă",
+  "uploads.regenerate.title": "Generezi un link nou?",
+  "uploads.regenerate.description": "Linkul actual nu va mai funcționa. Trimite-l pe cel nou destinatarilor.",
+  "uploads.regenerate.confirm": "Generează",
+  "uploads.emailHistory": "Istoric emailuri",
+  "uploads.historyFailed": "Istoricul nu a putut fi încărcat",
+  "uploads.noEmails": "Acest transfer nu a fost trimis încă pe email.",
+  "uploads.emailFailed": "Eșuat",
+  "uploads.emailSent": "Trimis",
+  "uploads.loadFailed": "Încărcările nu au putut fi afișate",
+  "uploads.loadMoreFailed": "Nu s-au putut încărca mai multe",
+  "uploads.pickFutureDate": "Alege o dată din viitor.",
+  "uploads.toast.deleted": "Transfer șters",
+  "uploads.toast.expiryUpdated": "Expirare actualizată",
+  "uploads.toast.expiresOn": "Linkul expiră acum la {date}.",
+  "uploads.toast.revoked": "Link revocat",
+  "uploads.toast.revokedDescription": "Linkul de partajare nu mai funcționează.",
+  "uploads.toast.regenerated": "Link nou generat",
+  "uploads.toast.regeneratedDescription": "Linkul vechi nu mai funcționează.",
+  "uploads.toast.actionFailed": "Acțiunea a eșuat",
+  "uploads.noMatches": "Niciun transfer nu corespunde acestor filtre.",
+  "uploads.empty": "Nicio încărcare încă. Mergi la Acasă/Încărcare și creează primul tău link de transfer.",
+  "uploads.oneFile": "1 fișier",
+  "uploads.nFiles": "{n} fișiere",
+  "uploads.encryptedTitle": "Criptat end-to-end: cheia există doar în linkul pe care l-ai distribuit",
+  "uploads.details": "Detalii",
+  "uploads.emails": "Emailuri",
+  "uploads.changeExpiry": "Schimbă expirarea",
+  "uploads.revokeLink": "Revocă linkul",
+  "uploads.newLink": "Link nou",
+  "uploads.copyLink": "Copiază linkul",
+  "uploads.shareQr": "Distribuie / QR",
+  "uploads.loadMore": "Încarcă mai multe",
+  "uploads.shareEncryptedNote": "Criptat end-to-end: acest link nu conține cheia de decriptare. Trimite linkul complet salvat la încărcare.",
+
+  // Share panel
+  "share.title": "Distribuie transferul",
+  "share.qrAlt": "Cod QR pentru linkul de partajare",
+  "share.share": "Distribuie…",
+  "share.qrPng": "QR ca PNG",
+  "share.qrSvg": "QR ca SVG",
+
+  // File preview
+  "preview.unsupported": "Nu există previzualizare pentru acest tip de fișier.",
+  "preview.tooLarge": "Fișierul este prea mare pentru previzualizare ({size}).",
+  "preview.failed": "Previzualizarea a eșuat",
+  "preview.cantPlay": "Browserul tău nu poate reda acest fișier.",
+  "preview.loading": "Se încarcă previzualizarea...",
+
+  // Settings
+  "settings.title": "Setări",
+  "settings.save": "Salvează",
+  "settings.profile.title": "Profil",
+  "settings.profile.displayName": "Nume afișat",
+  "settings.profile.displayNamePlaceholder": "Cum te văd destinatarii",
+  "settings.profile.saved": "Profil actualizat",
+  "settings.profile.failed": "Profilul nu a putut fi actualizat",
+  "settings.password.change": "Schimbă parola",
+  "settings.password.set": "Setează o parolă",
+  "settings.password.setHint": "Acum te autentifici fără parolă. Dacă setezi una, te poți autentifica și cu emailul și parola.",
+  "settings.password.current": "Parola actuală",
+  "settings.password.new": "Parola nouă",
+  "settings.password.confirm": "Repetă parola nouă",
+  "settings.password.mismatch": "Parolele noi nu coincid.",
+  "settings.password.saved": "Parola a fost salvată",
+  "settings.password.failed": "Parola nu a putut fi salvată",
+  "settings.providers.title": "Metode de autentificare",
+  "settings.providers.password": "Email și parolă",
+  "settings.providers.connected": "Conectat",
+  "settings.providers.link": "Conectează",
+  "settings.providers.unlink": "Deconectează",
+  "settings.providers.linked": "{provider} a fost conectat",
+  "settings.providers.unlinked": "{provider} a fost deconectat",
+  "settings.providers.failed": "Metodele de autentificare nu au putut fi modificate",
+  "settings.providers.lastOne": "Singura metodă de autentificare nu poate fi deconectată.",
+  "settings.defaults.title": "Setări implicite pentru încărcare",
+  "settings.defaults.emailMessage": "Mesaj implicit pentru email",
+  "settings.defaults.saved": "Setările implicite au fost salvate",
+  "settings.delete.title": "Șterge contul",
+  "settings.delete.description": "Contul tău este șters definitiv. Încărcările tale sunt șterse mai întâi sau predate altui cont.",
+  "settings.delete.button": "Șterge contul",
+  "settings.delete.confirmTitle": "Ștergi contul?",
+  "settings.delete.confirmDescription": "Acțiunea nu poate fi anulată. Alege ce se întâmplă cu încărcările tale.",
+  "settings.delete.deleteUploads": "Șterge toate încărcările mele",
+  "settings.delete.transferUploads": "Predă încărcările mele altui cont",
+  "settings.delete.transferTo": "Emailul noului proprietar",
+  "settings.delete.typeToConfirm": "Scrie {text} pentru a confirma",
+  "settings.delete.confirmPhrase": "șterge contul meu",
+  "settings.delete.recentLogin": "Pentru siguranță, deconectează-te și autentifică-te din nou, apoi șterge contul în următoarele 5 minute.",
+  "settings.delete.listing": "Se listează încărcările...",
+  "settings.delete.deletingUploads": "Se șterg încărcările ({done}/{total})...",
+  "settings.delete.transferringUploads": "Se predau încărcările ({done}/{total})...",
+  "settings.delete.deletingAccount": "Se șterge contul...",
+  "settings.delete.done": "Contul tău a fost șters",
+  "settings.delete.failed": "Contul nu a putut fi șters",
+
+  // Offline / PWA
+  "upload.offline": "Ești offline. Încărcările se opresc și continuă singure când revine conexiunea.",
+  "upload.file.offline": "se așteaptă conexiunea",
+  "upload.status.waitingForNetwork": "Se așteaptă revenirea conexiunii…",
+  "upload.error.sharedFailed": "Fișierele partajate nu au putut fi citite.",
+  "uploads.savedCopyOffline": "Ești offline. Se afișează lista din {date}.",
+  "uploads.savedCopy": "Lista nu a putut fi actualizată. Se afișează varianta din {date}.",
+
+  // Upload policy
+  "upload.policy.blockedType": "Fișierele .{extension} nu pot fi încărcate",
+  "upload.policy.fileTooLarge": "Depășește limita de {max} per fișier",
+  "upload.policy.tooManyFiles": "Depășește limita de {max} fișiere per transfer",
+  "upload.policy.totalTooLarge": "Nu încape în limita de {max} per transfer",
+  "upload.policy.summary": "Fișiere care depășesc limitele de încărcare: {count}. Sunt marcate mai jos și vor fi omise; elimină-le sau încarcă restul.",
+  "upload.error.noAllowedFiles": "Niciunul dintre fișierele selectate nu poate fi încărcat. Vezi motivul lângă fiecare fișier.",
+  "upload.error.rejectedBySize": "Serverul a respins transferul pentru că este prea mare. Elimină câteva fișiere și încearcă din nou.",
+
+  // Duplicates
+  "upload.duplicates.title": "Deja în listă: {count}",
+  "upload.duplicates.description": "Aceste fișiere sunt la fel ca unele adăugate deja. Ce facem cu noile copii?",
+  "upload.duplicates.more": "…și încă {count}",
+  "upload.duplicates.skip": "Omite",
+  "upload.duplicates.replace": "Înlocuiește",
+  "upload.duplicates.keep": "Păstrează ambele",
+  "upload.duplicates.compare": "Compară conținutul",
+  "upload.duplicates.compareHint": "Consideră duplicate și fișierele cu același conținut, indiferent de nume. Fișierele mari se verifică mai greu.",
+  "upload.duplicates.checking": "Se caută duplicate…",
+  "upload.duplicates.remove": "Elimină duplicatele",
+  "upload.duplicates.removed": "Duplicate eliminate: {count}",
+  "upload.duplicates.none": "Nu s-au găsit duplicate",
+
+  // Rename / reorder / notes
+  "upload.rename.label": "Redenumește",
+  "upload.rename.original": "Nume original: {name}",
+  "upload.rename.invalid": "Numele fișierului nu poate conține / sau \\.",
+  "upload.rename.taken": "Un alt fișier din acest folder se numește deja {name}.",
+  "upload.notePlaceholder": "Notă pentru destinatari (opțional)",
+  "upload.moveUp": "Mută în sus",
+  "upload.moveDown": "Mută în jos",
+  "upload.dragToReorder": "Trage pentru a reordona",
+
+  // Title / message / sender
+  "upload.titleLabel": "Titlu (opțional)",
+  "upload.titlePlaceholder": "ex. Poze de la nuntă",
+  "upload.senderLabel": "Numele tău (opțional)",
+  "upload.senderPlaceholder": "Apare la destinatari ca expeditor",
+  "upload.messageLabel": "Mesaj (opțional)",
+  "upload.messagePlaceholder": "Câteva cuvinte pentru destinatari",
+  "upload.messageHint": "Acceptă **bold**, *italic*, `cod`, linkuri și liste cu \"- \".",
+  "upload.messageNotEncrypted": "Titlul, mesajul și numele tău nu sunt criptate.",
+  "transfer.from": "De la {name}",
+
+  // Resume options
+  "upload.error.resumePassword": "Această încărcare era protejată cu parolă. Introdu din nou parola la Opțiuni transfer înainte de a o finaliza.",
+  "upload.resumePasswordHint": "Protejat cu parolă: introdu-o din nou la Opțiuni transfer, apoi reia.",
+  "upload.resumeOptionsLost": "Parola, expirarea și limita de descărcări ale acestei încărcări nu au fost salvate. Verifică opțiunile de mai jos înainte de a relua; transferul va fi publicat cu ele.",
+
+  // Resume key
+  "upload.error.resumeKey": "Această încărcare criptată poate fi reluată doar în fila în care a început: cheia nu este salvată pe disc. Renunță la ea și încarcă din nou.",
+
+  // Delete account re-auth
+  "settings.delete.reauthToFinish": "Autentifică-te din nou pentru a finaliza ștergerea contului",
+  "settings.delete.reauthToFinishHint": "Încărcările tale au fost procesate, dar a durat mai mult decât rămâne valabilă autentificarea. Autentifică-te, deschide Setările și șterge din nou contul.",
+
+  // Client-side errors
+  "error.sessionExpired": "Sesiunea a expirat. Autentifică-te din nou.",
+  "error.offline": "Ești offline.",
+  "error.notAuthenticated": "Nu ești autentificat.",
+  "e2e.error.decrypt": "Fișierul nu a putut fi decriptat. Cheia din link este greșită sau fișierul este deteriorat.",
+  "e2e.error.malformedKey": "Cheia de decriptare din link este invalidă.",
+  "e2e.error.notEncrypted": "Fișierul nu are formatul criptat așteptat.",
+
+  // Clipboard
+  "common.copyFailed": "Nu s-a putut copia. Selectează textul și copiază-l manual.",
+};
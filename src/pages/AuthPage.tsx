@@ -1,61 +1,123 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
-  GoogleAuthProvider,
-  signInWithPopup,
+  sendEmailVerification,
 } from "firebase/auth";
 import { auth } from "../lib/firebase";
 import { Card, CardContent } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
-import { useLocation, useNavigate } from "react-router-dom";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
 import { GlowBackground } from "@/components/ui/GlowBackground";
 import { sendPasswordResetEmail } from "firebase/auth";
+import { LanguageSwitcher } from "@/components/ui/LanguageSwitcher";
+import { useI18n } from "@/lib/i18n";
+import { useAuth } from "@/lib/auth";
+import { LoadingScreen } from "@/components/ui/LoadingScreen";
+import {
+  authErrorKey,
+  completeMagicLink,
+  completeRedirectSignIn,
+  isMagicLink,
+  magicLinkEmail,
+  safeFrom,
+  sendMagicLink,
+  signInWithProvider,
+  type OAuthProviderId,
+} from "@/lib/signIn";
 
 
 // ✅ logo (same as Upload page)
 import logo from "../assets/logo.png";
 
+// "link" asks for a magic link; "confirmLink" finishes one opened on another device
+type Mode = "login" | "signup" | "link" | "confirmLink";
+
 export default function AuthPage() {
-  const [mode, setMode] = useState<"login" | "signup">("login");
+  const [mode, setMode] = useState<Mode>(() =>
+    isMagicLink() && !magicLinkEmail() ? "confirmLink" : "login"
+  );
   const [email, setEmail] = useState("");
   const [pass, setPass] = useState("");
   const [status, setStatus] = useState<string>("");
+  const [busy, setBusy] = useState(false);
   const navigate = useNavigate();
-  const location = useLocation() as any;
-  const from = location?.state?.from ?? "/";
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const [redirectFrom, setRedirectFrom] = useState<string | null>(null);
+  const from =
+    redirectFrom ??
+    safeFrom((location.state as { from?: string } | null)?.from) ??
+    safeFrom(searchParams.get("from")) ??
+    "/";
+  const { t } = useI18n();
+  const { user, loading, sessionExpired } = useAuth();
+  const returnHandled = useRef(false);
+
+  // every way of signing in (and an already signed-in visit) ends up here
+  useEffect(() => {
+    if (user) navigate(from, { replace: true });
+  }, [user, from, navigate]);
+
+  // coming back from a provider redirect or a magic link
+  useEffect(() => {
+    if (returnHandled.current) return;
+    returnHandled.current = true;
+
+    completeRedirectSignIn()
+      .then((target) => target && setRedirectFrom(target))
+      .catch((e: unknown) => setStatus(t(authErrorKey(e, "auth.failed"))));
+
+    const stored = magicLinkEmail();
+    if (isMagicLink() && stored) {
+      completeMagicLink(stored).catch((e: unknown) =>
+        setStatus(t(authErrorKey(e, "auth.failed")))
+      );
+    }
+  }, [t]);
 
   async function handleSubmit() {
     setStatus("");
-    try {
-      if (!email.trim() || !pass.trim()) {
-        setStatus("Insert email + password");
-        return;
-      }
+    const address = email.trim();
+    const needsPassword = mode === "login" || mode === "signup";
+    if (!address || (needsPassword && !pass.trim())) {
+      setStatus(needsPassword ? t("auth.missingCredentials") : t("auth.enterEmailFirst"));
+      return;
+    }
 
+    setBusy(true);
+    try {
       if (mode === "login") {
-        await signInWithEmailAndPassword(auth, email.trim(), pass);
-        setStatus("✅ Logged in");
-        navigate(from, { replace: true });
+        await signInWithEmailAndPassword(auth, address, pass);
+        setStatus(t("auth.loggedIn"));
+      } else if (mode === "signup") {
+        const cred = await createUserWithEmailAndPassword(auth, address, pass);
+        await sendEmailVerification(cred.user, {
+          url: new URL(from, window.location.origin).toString(),
+        });
+        setStatus(t("auth.accountCreated"));
+      } else if (mode === "link") {
+        await sendMagicLink(address, from);
+        setStatus(t("auth.linkSent", { email: address }));
       } else {
-        await createUserWithEmailAndPassword(auth, email.trim(), pass);
-        setStatus("✅ Account created");
+        await completeMagicLink(address);
       }
-    } catch (e: any) {
-      setStatus(e?.message ?? "Auth failed");
+    } catch (e: unknown) {
+      setStatus(t(authErrorKey(e, "auth.failed")));
+    } finally {
+      setBusy(false);
     }
   }
 
-  async function handleGoogleSignIn() {
+  async function handleProviderSignIn(id: OAuthProviderId) {
     setStatus("");
     try {
-      const provider = new GoogleAuthProvider();
-      await signInWithPopup(auth, provider);
-      setStatus("✅ Logged in with Google");
-      navigate(from, { replace: true });
-    } catch (e: any) {
-      setStatus(e?.message ?? "Google sign-in failed");
+      // false: popups are blocked and the page is redirecting to the provider
+      if (await signInWithProvider(id, from)) setStatus(t("auth.loggedIn"));
+      else setStatus(t("auth.redirecting"));
+    } catch (e: unknown) {
+      setStatus(t(authErrorKey(e, "auth.providerFailed")));
     }
   }
 
@@ -63,19 +125,23 @@ export default function AuthPage() {
   setStatus("");
   try {
     if (!email.trim()) {
-      setStatus("Enter your email first.");
+      setStatus(t("auth.enterEmailFirst"));
       return;
     }
     await sendPasswordResetEmail(auth, email.trim());
-    setStatus("✅ Password reset email sent. Check your inbox.");
-  } catch (e: any) {
-    setStatus(e?.message ?? "Could not send reset email.");
+    setStatus(t("auth.resetSent"));
+  } catch (e: unknown) {
+    setStatus(t(authErrorKey(e, "auth.resetFailed")));
   }
 }
 
 
+  if (loading) return <LoadingScreen />;
+
   return (
     <GlowBackground>
+      <LanguageSwitcher className="fixed top-4 right-4 z-50" />
+
       <div className="flex items-center justify-center p-6">
         <Card className="w-full max-w-md bg-slate-900/35 border-slate-800 backdrop-blur-xl shadow-2xl">
           <CardContent className="p-7 space-y-4">
@@ -89,15 +155,27 @@ export default function AuthPage() {
               />
             </div>
 
+            {sessionExpired && (
+              <div className="rounded-md border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-100">
+                {t("auth.sessionExpired")} {t("auth.sessionExpiredHint")}
+              </div>
+            )}
+
             {/* ✅ Title */}
             <div className="text-xl font-semibold text-white text-center">
-              {mode === "login" ? "Sign in" : "Create account"}
+              {mode === "signup"
+                ? t("auth.createAccount")
+                : mode === "confirmLink"
+                ? t("auth.confirmLinkTitle")
+                : t("auth.signIn")}
             </div>
 
+            {mode !== "confirmLink" && (
+            <>
             {/* ✅ Google sign-in */}
             <Button
             variant="secondary"
-            onClick={handleGoogleSignIn}
+            onClick={() => handleProviderSignIn("google")}
             className="w-full flex items-center justify-center gap-3"
           >
             <svg
@@ -123,30 +201,58 @@ export default function AuthPage() {
               />
             </svg>
 
-            <span>Continue with Google</span>
+            <span>{t("auth.continueWithGoogle")}</span>
               </Button>
 
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="secondary"
+                onClick={() => handleProviderSignIn("github")}
+                className="flex items-center justify-center gap-2"
+              >
+                <svg viewBox="0 0 16 16" className="h-4 w-4" fill="currentColor" aria-hidden>
+                  <path d="M8 0C3.58 0 0 3.58 0 8c0 3.54 2.29 6.53 5.47 7.59.4.07.55-.17.55-.38 0-.19-.01-.82-.01-1.49-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48 0 1.07-.01 1.93-.01 2.2 0 .21.15.46.55.38A8.013 8.013 0 0016 8c0-4.42-3.58-8-8-8z" />
+                </svg>
+                <span>GitHub</span>
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => handleProviderSignIn("microsoft")}
+                className="flex items-center justify-center gap-2"
+              >
+                <svg viewBox="0 0 21 21" className="h-4 w-4" aria-hidden>
+                  <rect x="1" y="1" width="9" height="9" fill="#F25022" />
+                  <rect x="11" y="1" width="9" height="9" fill="#7FBA00" />
+                  <rect x="1" y="11" width="9" height="9" fill="#00A4EF" />
+                  <rect x="11" y="11" width="9" height="9" fill="#FFB900" />
+                </svg>
+                <span>Microsoft</span>
+              </Button>
+            </div>
+
               {mode === "login" && (
               <button
                 type="button"
                 onClick={handleResetPassword}
                 className="text-sm text-slate-200/80 hover:text-slate-100 underline underline-offset-4 text-center w-full"
               >
-                Forgot password?
+                {t("auth.forgotPassword")}
               </button>
 )}
+            </>
+            )}
 
 
 
             {/* separator */}
             <div className="flex items-center gap-3 py-1">
               <div className="h-px flex-1 bg-slate-800/80" />
-              <div className="text-xs text-slate-300/70">or</div>
+              <div className="text-xs text-slate-300/70">{t("auth.or")}</div>
               <div className="h-px flex-1 bg-slate-800/80" />
             </div>
 
             <div className="space-y-2">
-              <div className="text-xs text-slate-300/80">Email</div>
+              <div className="text-xs text-slate-300/80">{t("auth.email")}</div>
               <Input
                 type="email"
                 value={email}
@@ -155,8 +261,13 @@ export default function AuthPage() {
               />
             </div>
 
+            {mode === "confirmLink" && (
+              <div className="text-sm text-slate-200/80">{t("auth.confirmLinkHint")}</div>
+            )}
+
+            {(mode === "login" || mode === "signup") && (
             <div className="space-y-2">
-              <div className="text-xs text-slate-300/80">Password</div>
+              <div className="text-xs text-slate-300/80">{t("auth.password")}</div>
               <Input
                 type="password"
                 value={pass}
@@ -164,21 +275,38 @@ export default function AuthPage() {
                 className="text-slate-100 placeholder:text-slate-500"
               />
             </div>
+            )}
 
-            <Button onClick={handleSubmit} className="w-full">
-              {mode === "login" ? "Sign in" : "Sign up"}
+            <Button onClick={handleSubmit} disabled={busy} className="w-full">
+              {mode === "login"
+                ? t("auth.signIn")
+                : mode === "signup"
+                ? t("auth.signUp")
+                : mode === "link"
+                ? t("auth.sendLink")
+                : t("auth.confirmLink")}
             </Button>
 
+            {mode !== "confirmLink" && (
+            <>
             <Button
               variant="secondary"
-              onClick={() => setMode(mode === "login" ? "signup" : "login")}
+              onClick={() => setMode(mode === "link" ? "login" : "link")}
               className="w-full"
             >
-              {mode === "login"
-                ? "Need an account? Sign up"
-                : "Have an account? Sign in"}
+              {mode === "link" ? t("auth.usePassword") : t("auth.useLink")}
             </Button>
 
+            <Button
+              variant="secondary"
+              onClick={() => setMode(mode === "signup" ? "login" : "signup")}
+              className="w-full"
+            >
+              {mode === "signup" ? t("auth.haveAccount") : t("auth.needAccount")}
+            </Button>
+            </>
+            )}
+
             {status && (
               <div className="rounded-md border border-slate-800 bg-slate-950/30 p-3 text-sm text-slate-100">
                 {status}
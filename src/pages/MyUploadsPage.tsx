@@ -1,31 +1,238 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/lib/auth";
-import { API_BASE_URL } from "../config";
+import {
+  api,
+  type MyTransfersQuery,
+  type EmailEvent,
+  type TransferStatusFilter,
+  type TransferSummary,
+} from "@/lib/api";
+import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import logo from "@/assets/logo.png";
 import { TopRightBar } from "@/components/ui/TopRightBar";
-import { signOut } from "firebase/auth";
-import { auth } from "@/lib/firebase";
-
+import { useToast } from "@/hooks/use-toast";
+import { copyText } from "@/lib/clipboard";
+import { useOnline } from "@/hooks/use-online";
+import { loadSavedUploads, saveUploads } from "@/lib/offlineUploads";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatDate } from "@/lib/format";
+import { ShareDialog } from "@/components/ui/SharePanel";
+import { resolveExpiry, toDateInputValue } from "@/lib/expiry";
+import { errorMessage, statusKey, useI18n } from "@/lib/i18n";
+import type { MessageKey } from "@/locales/en";
+
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS = {
+  newest: { label: "uploads.sort.newest", sort: "createdAt", order: "desc" },
+  oldest: { label: "uploads.sort.oldest", sort: "createdAt", order: "asc" },
+  expiring: { label: "uploads.sort.expiring", sort: "expiresAt", order: "asc" },
+  largest: { label: "uploads.sort.largest", sort: "size", order: "desc" },
+  smallest: { label: "uploads.sort.smallest", sort: "size", order: "asc" },
+} as const satisfies Record<
+  string,
+  { label: MessageKey; sort: MyTransfersQuery["sort"]; order: MyTransfersQuery["order"] }
+>;
+
+type SortKey = keyof typeof SORT_OPTIONS;
+
+const STATUS_FILTERS: Array<{ value: TransferStatusFilter | ""; label: MessageKey }> = [
+  { value: "", label: "uploads.filter.all" },
+  { value: "ready", label: "uploads.filter.ready" },
+  { value: "draft", label: "uploads.filter.draft" },
+  { value: "expired", label: "uploads.filter.expired" },
+];
+
+function parseSort(v: string | null): SortKey {
+  return v && v in SORT_OPTIONS ? (v as SortKey) : "newest";
+}
 
+function parseStatus(v: string | null): TransferStatusFilter | "" {
+  return v === "ready" || v === "draft" || v === "expired" ? v : "";
+}
 
+type ManageAction = "delete" | "expiry" | "revoke" | "regenerate";
+
+const MANAGE_COPY: Record<
+  ManageAction,
+  { title: MessageKey; description: MessageKey; confirmLabel: MessageKey; destructive?: boolean }
+> = {
+  delete: {
+    title: "uploads.delete.title",
+    description: "uploads.delete.description",
+    confirmLabel: "uploads.delete.confirm",
+    destructive: true,
+  },
+  expiry: {
+    title: "uploads.expiry.title",
+    description: "uploads.expiry.description",
+    confirmLabel: "uploads.expiry.confirm",
+  },
+  revoke: {
+    title: "uploads.revoke.title",
+    description: "uploads.revoke.description",
+    confirmLabel: "uploads.revoke.confirm",
+    destructive: true,
+  },
+  regenerate: {
+    title: "uploads.regenerate.title",
+    description: "uploads.regenerate.description",
+    confirmLabel: "uploads.regenerate.confirm",
+  },
+};
+
+/** Who a transfer was emailed to, newest first. */
+function EmailHistoryDialog({
+  transferId,
+  onClose,
+}: {
+  transferId: string;
+  onClose: () => void;
+}) {
+  const [emails, setEmails] = useState<EmailEvent[] | null>(null);
+  // "" = failed without a message of its own
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
 
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getTransferStats(transferId)
+      .then((stats) => {
+        if (!cancelled) setEmails([...stats.emails].sort((a, b) => b.at - a.at));
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [transferId]);
 
-type Transfer = any;
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("uploads.emailHistory")}</DialogTitle>
+          <DialogDescription className="break-all">{transferId}</DialogDescription>
+        </DialogHeader>
+
+        {error !== null ? (
+          <div className="text-sm text-red-200">{error || t("uploads.historyFailed")}</div>
+        ) : !emails ? (
+          <div className="text-sm text-white/60">{t("common.loading")}</div>
+        ) : !emails.length ? (
+          <div className="text-sm text-white/60">{t("uploads.noEmails")}</div>
+        ) : (
+          <div className="max-h-[50vh] overflow-auto divide-y divide-white/10 text-sm">
+            {emails.map((e, i) => (
+              <div key={`${e.at}-${i}`} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <div className="truncate text-white">{e.to}</div>
+                  <div className="text-xs text-white/50">{formatDate(e.at)}</div>
+                </div>
+                <span
+                  className={e.status === "failed" ? "text-red-200" : "text-emerald-300"}
+                  title={e.error}
+                >
+                  {e.status === "failed" ? `✗ ${t("uploads.emailFailed")}` : `✓ ${t("uploads.emailSent")}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
 
 export default function MyUploadsPage() {
-  const { getIdToken } = useAuth();
-  const [uploads, setUploads] = useState<Transfer[]>([]);
+  const [uploads, setUploads] = useState<TransferSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const { user } = useAuth();
+  const { user, signOut } = useAuth();
   const userEmail = user?.email ?? null;
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const online = useOnline();
+  // set while the list comes from the copy saved on this device
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+
+  const [pending, setPending] = useState<{
+    kind: ManageAction;
+    transferId: string;
+  } | null>(null);
+  const [expiryDate, setExpiryDate] = useState("");
+  const [emailsFor, setEmailsFor] = useState<string | null>(null);
+  const [sharing, setSharing] = useState<{
+    transferId: string;
+    url: string;
+    encrypted: boolean;
+  } | null>(null);
+
+  // filters live in the query string so a view can be bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const q = searchParams.get("q") ?? "";
+  const statusFilter = parseStatus(searchParams.get("status"));
+  const sortKey = parseSort(searchParams.get("sort"));
+  const hasFilters = !!q || !!statusFilter;
+
+  const [searchText, setSearchText] = useState(q);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const query = useMemo<MyTransfersQuery>(
+    () => ({
+      q: q || undefined,
+      status: statusFilter || undefined,
+      sort: SORT_OPTIONS[sortKey].sort,
+      order: SORT_OPTIONS[sortKey].order,
+      limit: PAGE_SIZE,
+    }),
+    [q, statusFilter, sortKey]
+  );
+  const queryRef = useRef(query);
+
+  function updateParam(key: string, value: string) {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (value) next.set(key, value);
+        else next.delete(key);
+        return next;
+      },
+      { replace: true }
+    );
+  }
 
-  async function handleSignOut() {
-  await signOut(auth);
-}
-
+  // debounce typing before it hits the URL (and the API)
+  useEffect(() => {
+    const value = searchText.trim();
+    if (value === q) return;
+
+    const timer = setTimeout(() => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (value) next.set("q", value);
+          else next.delete("q");
+          return next;
+        },
+        { replace: true }
+      );
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchText, q, setSearchParams]);
 
   useEffect(() => {
     let cancelled = false;
@@ -33,29 +240,26 @@ export default function MyUploadsPage() {
     async function fetchUploads() {
       setLoading(true);
       setError(null);
+      queryRef.current = query;
 
       try {
-        const token = await getIdToken();
-        if (!token) throw new Error("Not authenticated");
-
-        const res = await fetch(`${API_BASE_URL}/api/transfers/my`, {
-          method: "GET",
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        if (!res.ok) {
-          let msg = `HTTP ${res.status}`;
-          try {
-            const body = await res.json();
-            if (body?.error) msg = `${msg} - ${body.error}`;
-          } catch {}
-          throw new Error(msg);
+        const page = await api.myTransfers(query);
+        if (!cancelled) {
+          setUploads(page.transfers);
+          setNextCursor(page.nextCursor);
+          setSavedAt(null);
+          if (user) saveUploads(user.uid, query, page.transfers);
+        }
+      } catch (e: unknown) {
+        if (cancelled) return;
+        const saved = user ? loadSavedUploads(user.uid, query) : null;
+        if (saved) {
+          setUploads(saved.transfers);
+          setNextCursor(null);
+          setSavedAt(saved.savedAt);
+        } else {
+          setError(e instanceof Error ? e.message : "");
         }
-
-        const data = await res.json();
-        if (!cancelled) setUploads(data.transfers || []);
-      } catch (e: any) {
-        if (!cancelled) setError(e?.message || "Failed to load uploads");
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -65,34 +269,50 @@ export default function MyUploadsPage() {
     return () => {
       cancelled = true;
     };
-  }, [getIdToken]);
+    // `online`: refetch when the connection comes back
+  }, [user, query, online]);
 
-  const now = Date.now();
+  async function handleLoadMore() {
+    if (!nextCursor) return;
+    const forQuery = query;
 
-  const normalized = useMemo(() => {
-    return (uploads || []).map((t: any) => {
-      const id = t.transferId || t.id;
-      const shareUrl = t.shareUrl || `${window.location.origin}/t/${id}`;
-      const expiresAtMs =
-        typeof t.expiresAt === "number"
-          ? t.expiresAt
-          : t.expiresAt?.toMillis?.() ?? null;
-      const createdAtMs =
-       typeof t.createdAt === "number"
-        ? t.createdAt
-        : t.createdAt?.toMillis?.() ?? null;
+    setLoadingMore(true);
+    try {
+      const page = await api.myTransfers({ ...forQuery, cursor: nextCursor });
+      // filters changed while this page was loading
+      if (queryRef.current !== forQuery) return;
+      setUploads((prev) => [...prev, ...page.transfers]);
+      setNextCursor(page.nextCursor);
+    } catch (e: unknown) {
+      toast({
+        variant: "destructive",
+        title: t("uploads.loadMoreFailed"),
+        description: errorMessage(e, t, "common.unknownError"),
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  }
 
+  const now = Date.now();
 
+  const normalized = useMemo(() => {
+    return uploads.map((u) => {
+      const id = u.transferId;
+      const shareUrl = u.shareUrl || `${window.location.origin}/t/${id}`;
+      const expiresAtMs = u.expiresAt;
+      const createdAtMs = u.createdAt;
 
-      const statusRaw = (t.status || "draft").toLowerCase();
+      const statusRaw = (u.status || "draft").toLowerCase();
       const isExpired = expiresAtMs ? expiresAtMs < now : false;
 
-      let status: "ready" | "draft" | "expired" = "draft";
-      if (isExpired) status = "expired";
+      let status: "ready" | "draft" | "expired" | "revoked" = "draft";
+      if (statusRaw === "revoked") status = "revoked";
+      else if (isExpired) status = "expired";
       else if (statusRaw === "ready") status = "ready";
 
       return {
-        ...t,
+        ...u,
         _id: id,
         _shareUrl: shareUrl,
         _expiresAtMs: expiresAtMs,
@@ -102,17 +322,87 @@ export default function MyUploadsPage() {
     });
   }, [uploads, now]);
 
-  async function handleCopy(url: string) {
+  function patchUpload(transferId: string, patch: Partial<TransferSummary>) {
+    setUploads((prev) =>
+      prev.map((u) => (u.transferId === transferId ? { ...u, ...patch } : u))
+    );
+  }
+
+  function openAction(kind: ManageAction, u: TransferSummary) {
+    if (kind === "expiry") {
+      setExpiryDate(toDateInputValue(u.expiresAt ?? Date.now()));
+    }
+    setPending({ kind, transferId: u.transferId });
+  }
+
+  async function runAction() {
+    if (!pending) return;
+    const id = pending.transferId;
+
     try {
-      await navigator.clipboard.writeText(url);
-    } catch {
-      // fallback (rare)
-      const ta = document.createElement("textarea");
-      ta.value = url;
-      document.body.appendChild(ta);
-      ta.select();
-      document.execCommand("copy");
-      document.body.removeChild(ta);
+      switch (pending.kind) {
+        case "delete":
+          await api.deleteTransfer(id);
+          setUploads((prev) => prev.filter((u) => u.transferId !== id));
+          toast({ title: t("uploads.toast.deleted") });
+          break;
+
+        case "expiry": {
+          const expiresAt = resolveExpiry("custom", expiryDate);
+          if (!expiresAt) throw new Error(t("uploads.pickFutureDate"));
+          const res = await api.updateTransfer(id, { expiresAt });
+          const next = res.expiresAt ?? expiresAt;
+          patchUpload(id, { expiresAt: next });
+          toast({
+            title: t("uploads.toast.expiryUpdated"),
+            description: t("uploads.toast.expiresOn", { date: formatDate(next) }),
+          });
+          break;
+        }
+
+        case "revoke":
+          await api.revokeTransfer(id);
+          patchUpload(id, { status: "revoked" });
+          toast({
+            title: t("uploads.toast.revoked"),
+            description: t("uploads.toast.revokedDescription"),
+          });
+          break;
+
+        case "regenerate": {
+          const res = await api.regenerateLink(id);
+          setUploads((prev) =>
+            prev.map((u) =>
+              u.transferId === id
+                ? {
+                    ...u,
+                    transferId: res.transferId,
+                    shareUrl: res.shareUrl,
+                    status: u.status === "revoked" ? "ready" : u.status,
+                  }
+                : u
+            )
+          );
+          toast({
+            title: t("uploads.toast.regenerated"),
+            description: t("uploads.toast.regeneratedDescription"),
+          });
+          break;
+        }
+      }
+    } catch (e: unknown) {
+      toast({
+        variant: "destructive",
+        title: t("uploads.toast.actionFailed"),
+        description: errorMessage(e, t, "common.unknownError"),
+      });
+      throw e;
+    }
+  }
+
+  async function handleCopy(url: string) {
+    if (!(await copyText(url))) {
+      toast({ variant: "destructive", title: t("common.copyFailed") });
     }
   }
 
@@ -120,7 +410,7 @@ export default function MyUploadsPage() {
   return (
     <div className="min-h-screen bg-[#050816] text-white">
       {/* glow background */}
-      <TopRightBar userEmail={userEmail} onSignOut={handleSignOut} />
+      <TopRightBar userEmail={userEmail} onSignOut={signOut} />
       <div className="pointer-events-none fixed inset-0 bg-[radial-gradient(circle_at_30%_20%,rgba(99,102,241,0.22),transparent_40%),radial-gradient(circle_at_70%_10%,rgba(56,189,248,0.16),transparent_35%),radial-gradient(circle_at_50%_90%,rgba(168,85,247,0.16),transparent_40%)]" />
 
       <div className="relative mx-auto max-w-4xl px-4 py-10">
@@ -137,7 +427,7 @@ export default function MyUploadsPage() {
         transition-colors
     "
     >
-    Share feedback
+    {t("common.feedback")}
     </a>
 
         {/* header */}
@@ -149,11 +439,11 @@ export default function MyUploadsPage() {
   />
 
   <h1 className="text-3xl font-semibold tracking-tight">
-    My uploads
+    {t("uploads.title")}
   </h1>
 
   <p className="text-sm text-white/60 text-center">
-    Your recent transfers. Copy a link or open the download page.
+    {t("uploads.subtitle")}
   </p>
 </div>
 
@@ -161,47 +451,84 @@ export default function MyUploadsPage() {
         {/* main card */}
         <Card className="border-white/10 bg-white/5 backdrop-blur-md">
           <div className="p-4 sm:p-6">
-            {loading && <p className="text-sm text-white/70">Loading...</p>}
+            <div className="mb-4 flex flex-col gap-2 sm:flex-row sm:items-center">
+              <div className="flex-1">
+                <Input
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
+                  placeholder={t("uploads.searchPlaceholder")}
+                />
+              </div>
+
+              <select
+                value={statusFilter}
+                onChange={(e) => updateParam("status", e.target.value)}
+                className="h-10 rounded-md border border-slate-800 bg-slate-950 px-3 text-sm text-slate-100"
+              >
+                {STATUS_FILTERS.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {t(f.label)}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                value={sortKey}
+                onChange={(e) =>
+                  updateParam("sort", e.target.value === "newest" ? "" : e.target.value)
+                }
+                className="h-10 rounded-md border border-slate-800 bg-slate-950 px-3 text-sm text-slate-100"
+              >
+                {Object.entries(SORT_OPTIONS).map(([key, o]) => (
+                  <option key={key} value={key}>
+                    {t(o.label)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {loading && <p className="text-sm text-white/70">{t("common.loading")}</p>}
+
+            {!loading && savedAt !== null && (
+              <div className="rounded-md border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-100">
+                {t(online ? "uploads.savedCopy" : "uploads.savedCopyOffline", {
+                  date: formatDate(savedAt),
+                })}
+              </div>
+            )}
 
-            {!loading && error && (
-              <p className="text-sm text-red-300">{error}</p>
+            {!loading && error !== null && (
+              <p className="text-sm text-red-300">{error || t("uploads.loadFailed")}</p>
             )}
 
-            {!loading && !error && normalized.length === 0 && (
+            {!loading && error === null && normalized.length === 0 && (
               <p className="text-sm text-white/60">
-                No uploads yet. Go to Home/Upload and create your first transfer link.
+                {hasFilters ? t("uploads.noMatches") : t("uploads.empty")}
               </p>
             )}
 
-            {!loading && !error && normalized.length > 0 && (
+            {!loading && error === null && normalized.length > 0 && (
               <div className="space-y-3">
-                {normalized.map((t: any) => {
-                  const filesCount = t.files?.length || 0;
-                  const expiresLabel = t._expiresAtMs
-                    ? new Date(t._expiresAtMs).toLocaleString()
-                    : "—";
-                  const createdLabel = t._createdAtMs
-                    ? new Date(t._createdAtMs).toLocaleString()
-                    : "—";
+                {normalized.map((u) => {
+                  const filesCount = u.files?.length || 0;
+                  const expiresLabel = formatDate(u._expiresAtMs);
+                  const createdLabel = formatDate(u._createdAtMs);
 
 
                   const pill =
-                    t._status === "ready"
+                    u._status === "ready"
                       ? "bg-emerald-500/15 text-emerald-200 border-emerald-500/20"
-                      : t._status === "expired"
+                      : u._status === "expired"
                       ? "bg-red-500/15 text-red-200 border-red-500/20"
+                      : u._status === "revoked"
+                      ? "bg-slate-500/15 text-slate-200 border-slate-500/20"
                       : "bg-yellow-500/15 text-yellow-200 border-yellow-500/20";
 
-                  const pillText =
-                    t._status === "ready"
-                      ? "Ready"
-                      : t._status === "expired"
-                      ? "Expired"
-                      : "Draft";
+                  const pillText = t(statusKey(u._status));
 
                   return (
                     <div
-                      key={t._id}
+                      key={u._id}
                       className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/[0.03] p-4 sm:flex-row sm:items-center sm:justify-between"
                     >
                       <div className="min-w-0">
@@ -209,54 +536,207 @@ export default function MyUploadsPage() {
 
 
                           <span className="text-base font-medium text-white/90">
-                            {filesCount} file{filesCount === 1 ? "" : "s"}
+                            {u.title ? (
+                              <>
+                                {u.title}{" "}
+                                <span className="text-sm font-normal text-white/60">
+                                  ·{" "}
+                                  {t(filesCount === 1 ? "uploads.oneFile" : "uploads.nFiles", {
+                                    n: filesCount,
+                                  })}
+                                </span>
+                              </>
+                            ) : (
+                              t(filesCount === 1 ? "uploads.oneFile" : "uploads.nFiles", {
+                                n: filesCount,
+                              })
+                            )}
                           </span>
                           <span
-                            className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs ${pill}`}
+                            className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs capitalize ${pill}`}
                           >
                             {pillText}
                           </span>
+                          {u.passwordProtected && (
+                            <span className="ml-2 text-xs" title={t("transfer.passwordProtectedShort")}>
+                              🔒
+                            </span>
+                          )}
+                          {u.encrypted && (
+                            <span
+                              className="ml-2 text-xs"
+                              title={t("uploads.encryptedTitle")}
+                            >
+                              🔐
+                            </span>
+                          )}
                         </div>
 
                         <div className="mt-1 text-sm text-white/60">
-                         Created: {createdLabel}
+                         {t("transfer.created")} {createdLabel}
                         </div>
                         <div className="text-sm text-white/60">
-                         Expires: {expiresLabel}
+                         {t("transfer.expires")} {expiresLabel}
                         </div>
 
 
                         <div className="mt-1 text-xs text-white/40 truncate">
-                          {t._shareUrl}
+                          {u._shareUrl}
+                        </div>
+
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          <Link to={`/my-uploads/${u.transferId}`}>
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              className="bg-white/10 hover:bg-white/15 text-white"
+                            >
+                              {t("uploads.details")}
+                            </Button>
+                          </Link>
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => setEmailsFor(u.transferId)}
+                            className="bg-white/10 hover:bg-white/15 text-white"
+                          >
+                            {t("uploads.emails")}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => openAction("expiry", u)}
+                            className="bg-white/10 hover:bg-white/15 text-white"
+                          >
+                            {t("uploads.changeExpiry")}
+                          </Button>
+                          {u._status !== "revoked" && (
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              onClick={() => openAction("revoke", u)}
+                              className="bg-white/10 hover:bg-white/15 text-white"
+                            >
+                              {t("uploads.revokeLink")}
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => openAction("regenerate", u)}
+                            className="bg-white/10 hover:bg-white/15 text-white"
+                          >
+                            {t("uploads.newLink")}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => openAction("delete", u)}
+                            className="bg-red-500/15 hover:bg-red-500/25 text-red-200"
+                          >
+                            {t("uploads.delete.confirm")}
+                          </Button>
                         </div>
                       </div>
 
                       <div className="flex gap-2 sm:flex-shrink-0">
                         <Button
                           variant="secondary"
-                          onClick={() => handleCopy(t._shareUrl)}
+                          onClick={() => handleCopy(u._shareUrl)}
+                          className="bg-white/10 hover:bg-white/15 text-white"
+                        >
+                          {t("uploads.copyLink")}
+                        </Button>
+
+                        <Button
+                          variant="secondary"
+                          onClick={() =>
+                            setSharing({
+                              transferId: u.transferId,
+                              url: u._shareUrl,
+                              encrypted: u.encrypted,
+                            })
+                          }
                           className="bg-white/10 hover:bg-white/15 text-white"
                         >
-                          Copy link
+                          {t("uploads.shareQr")}
                         </Button>
 
                         <Button
                           onClick={() =>
-                            window.open(t._shareUrl, "_blank", "noopener,noreferrer")
+                            window.open(u._shareUrl, "_blank", "noopener,noreferrer")
                           }
                           className="bg-indigo-500/80 hover:bg-indigo-500 text-white"
                         >
-                          Open
+                          {t("common.open")}
                         </Button>
                       </div>
                     </div>
                   );
                 })}
+
+                {nextCursor && (
+                  <div className="flex justify-center pt-2">
+                    <Button
+                      variant="secondary"
+                      onClick={handleLoadMore}
+                      disabled={loadingMore}
+                      className="bg-white/10 hover:bg-white/15 text-white"
+                    >
+                      {loadingMore ? t("common.loading") : t("uploads.loadMore")}
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
           </div>
         </Card>
       </div>
+
+      {pending && (
+        <ConfirmDialog
+          open
+          onOpenChange={(open) => !open && setPending(null)}
+          title={t(MANAGE_COPY[pending.kind].title)}
+          description={t(MANAGE_COPY[pending.kind].description)}
+          confirmLabel={t(MANAGE_COPY[pending.kind].confirmLabel)}
+          destructive={MANAGE_COPY[pending.kind].destructive}
+          confirmDisabled={
+            pending.kind === "expiry" && !resolveExpiry("custom", expiryDate)
+          }
+          onConfirm={runAction}
+        >
+          {pending.kind === "expiry" && (
+            <input
+              type="date"
+              value={expiryDate}
+              min={toDateInputValue(Date.now())}
+              onChange={(e) => setExpiryDate(e.target.value)}
+              className="rounded-md border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 [color-scheme:dark]"
+            />
+          )}
+        </ConfirmDialog>
+      )}
+
+      {sharing && (
+        <ShareDialog
+          url={sharing.url}
+          fileName={`swift-transfer-${sharing.transferId}`}
+          description={
+            sharing.encrypted
+              ? `🔐 ${t("uploads.shareEncryptedNote")}`
+              : sharing.transferId
+          }
+          onClose={() => setSharing(null)}
+        />
+      )}
+
+      {emailsFor && (
+        <EmailHistoryDialog
+          transferId={emailsFor}
+          onClose={() => setEmailsFor(null)}
+        />
+      )}
     </div>
   );
 }
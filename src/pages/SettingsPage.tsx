@@ -0,0 +1,514 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  EmailAuthProvider,
+  deleteUser,
+  linkWithCredential,
+  reauthenticateWithCredential,
+  unlink,
+  updatePassword,
+  updateProfile,
+} from "firebase/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PageShell } from "@/components/ui/PageShell";
+import { TopRightBar } from "@/components/ui/TopRightBar";
+import { LanguageSwitcher } from "@/components/ui/LanguageSwitcher";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { useI18n } from "@/lib/i18n";
+import { api, type TransferSummary } from "@/lib/api";
+import { EXPIRY_PRESETS } from "@/lib/expiry";
+import {
+  clearPreferences,
+  loadPreferences,
+  savePreferences,
+  type UserPreferences,
+} from "@/lib/preferences";
+import { clearRecentRecipients, isValidEmail } from "@/lib/recipients";
+import { clearUploadSession } from "@/lib/uploadSession";
+import { clearSavedUploads } from "@/lib/offlineUploads";
+import {
+  authErrorMessage,
+  isRecentSignIn,
+  linkProvider,
+  PROVIDER_IDS,
+  type OAuthProviderId,
+} from "@/lib/signIn";
+
+const cardCls =
+  "rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-xl shadow-2xl p-5 space-y-3";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const PROVIDER_LABELS: Record<OAuthProviderId, string> = {
+  google: "Google",
+  github: "GitHub",
+  microsoft: "Microsoft",
+};
+
+async function listAllUploads() {
+  const all: TransferSummary[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await api.myTransfers({ limit: 100, cursor });
+    all.push(...page.transfers);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return all;
+}
+
+export default function SettingsPage() {
+  const { user, signOut, reloadUser } = useAuth();
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const uid = user?.uid ?? "";
+  const email = user?.email ?? "";
+
+  const [displayName, setDisplayName] = useState(user?.displayName ?? "");
+  const [savingName, setSavingName] = useState(false);
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  const [linking, setLinking] = useState<string | null>(null);
+
+  const [prefs, setPrefs] = useState<UserPreferences>(() => loadPreferences(uid));
+
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [uploadsAction, setUploadsAction] = useState<"delete" | "transfer">("delete");
+  const [transferTo, setTransferTo] = useState("");
+  const [deleteConfirm, setDeleteConfirm] = useState("");
+  const [deleteProgress, setDeleteProgress] = useState("");
+
+  const linked = new Set(user?.providerData.map((p) => p.providerId) ?? []);
+  const hasPassword = linked.has("password");
+
+  function fail(e: unknown, title: string) {
+    toast({
+      variant: "destructive",
+      title,
+      description: authErrorMessage(e, t, "common.unknownError"),
+    });
+  }
+
+  async function handleSaveName() {
+    if (!user) return;
+    setSavingName(true);
+    try {
+      await updateProfile(user, { displayName: displayName.trim() || null });
+      await reloadUser();
+      toast({ title: t("settings.profile.saved") });
+    } catch (e: unknown) {
+      fail(e, t("settings.profile.failed"));
+    } finally {
+      setSavingName(false);
+    }
+  }
+
+  async function handleSavePassword() {
+    if (!user) return;
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast({ variant: "destructive", title: t("auth.error.weakPassword") });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({ variant: "destructive", title: t("settings.password.mismatch") });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      if (hasPassword) {
+        await reauthenticateWithCredential(
+          user,
+          EmailAuthProvider.credential(email, currentPassword)
+        );
+        await updatePassword(user, newPassword);
+      } else {
+        // OAuth / email-link accounts get a password as an extra sign-in method
+        await linkWithCredential(user, EmailAuthProvider.credential(email, newPassword));
+        await reloadUser();
+      }
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({ title: t("settings.password.saved") });
+    } catch (e: unknown) {
+      fail(e, t("settings.password.failed"));
+    } finally {
+      setSavingPassword(false);
+    }
+  }
+
+  async function handleLink(id: OAuthProviderId) {
+    if (!user) return;
+    setLinking(id);
+    try {
+      await linkProvider(user, id);
+      await reloadUser();
+      toast({ title: t("settings.providers.linked", { provider: PROVIDER_LABELS[id] }) });
+    } catch (e: unknown) {
+      fail(e, t("settings.providers.failed"));
+    } finally {
+      setLinking(null);
+    }
+  }
+
+  async function handleUnlink(providerId: string, label: string) {
+    if (!user) return;
+    setLinking(providerId);
+    try {
+      await unlink(user, providerId);
+      await reloadUser();
+      toast({ title: t("settings.providers.unlinked", { provider: label }) });
+    } catch (e: unknown) {
+      fail(e, t("settings.providers.failed"));
+    } finally {
+      setLinking(null);
+    }
+  }
+
+  function handleSavePrefs() {
+    savePreferences(uid, prefs);
+    toast({ title: t("settings.defaults.saved") });
+  }
+
+  async function handleDeleteAccount() {
+    if (!user) return;
+    try {
+      // checked up front so uploads aren't removed when Firebase would refuse at the end
+      if (!(await isRecentSignIn(user))) {
+        throw new Error(t("settings.delete.recentLogin"));
+      }
+
+      setDeleteProgress(t("settings.delete.listing"));
+      const uploads = await listAllUploads();
+
+      for (const [i, u] of uploads.entries()) {
+        setDeleteProgress(
+          t(
+            uploadsAction === "delete"
+              ? "settings.delete.deletingUploads"
+              : "settings.delete.transferringUploads",
+            { done: i, total: uploads.length }
+          )
+        );
+        if (uploadsAction === "delete") await api.deleteTransfer(u.transferId);
+        else await api.transferOwnership(u.transferId, transferTo.trim());
+      }
+
+      // a long list can outlast the sign-in window: check again before the account goes
+      if (!(await isRecentSignIn(user))) {
+        setDeleteProgress("");
+        toast({
+          variant: "destructive",
+          title: t("settings.delete.reauthToFinish"),
+          description: t("settings.delete.reauthToFinishHint"),
+        });
+        await signOut();
+        navigate("/auth", { replace: true, state: { from: "/settings" } });
+        return;
+      }
+
+      setDeleteProgress(t("settings.delete.deletingAccount"));
+      await deleteUser(user);
+
+      clearPreferences(uid);
+      clearRecentRecipients(uid);
+      clearUploadSession(uid);
+      clearSavedUploads(uid);
+      toast({ title: t("settings.delete.done") });
+      navigate("/auth", { replace: true });
+    } catch (e: unknown) {
+      setDeleteProgress("");
+      fail(e, t("settings.delete.failed"));
+      throw e;
+    }
+  }
+
+  const transferTarget = transferTo.trim();
+  // accounts from some providers have no email; they type a fixed phrase instead
+  const confirmText = email || t("settings.delete.confirmPhrase");
+  const canDelete =
+    !!deleteConfirm.trim() &&
+    deleteConfirm.trim().toLowerCase() === confirmText.toLowerCase() &&
+    (uploadsAction === "delete" ||
+      (isValidEmail(transferTarget) && transferTarget.toLowerCase() !== email.toLowerCase()));
+
+  return (
+    <>
+      <TopRightBar userEmail={email} onSignOut={signOut} />
+
+      <PageShell maxWidth="max-w-3xl">
+        <div className="flex flex-col items-center gap-2 pb-6">
+          <div className="text-3xl font-semibold text-slate-100">{t("settings.title")}</div>
+          <div className="text-xs text-slate-300/80 break-all">{email}</div>
+        </div>
+
+        <div className="space-y-4">
+          {/* Profile */}
+          <div className={cardCls}>
+            <div className="text-sm text-slate-200/90 font-medium">
+              {t("settings.profile.title")}
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs text-slate-300/80">{t("settings.profile.displayName")}</div>
+              <div className="flex gap-2">
+                <Input
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  maxLength={80}
+                  placeholder={t("settings.profile.displayNamePlaceholder")}
+                  className="text-slate-100 placeholder:text-slate-400"
+                />
+                <Button
+                  onClick={handleSaveName}
+                  disabled={savingName || displayName.trim() === (user?.displayName ?? "")}
+                >
+                  {t("settings.save")}
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {/* Password */}
+          <div className={cardCls}>
+            <div className="text-sm text-slate-200/90 font-medium">
+              {hasPassword ? t("settings.password.change") : t("settings.password.set")}
+            </div>
+            {!hasPassword && (
+              <div className="text-xs text-slate-300/80">{t("settings.password.setHint")}</div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {hasPassword && (
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  placeholder={t("settings.password.current")}
+                  className="text-slate-100 placeholder:text-slate-400"
+                />
+              )}
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder={t("settings.password.new")}
+                className="text-slate-100 placeholder:text-slate-400"
+              />
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder={t("settings.password.confirm")}
+                className="text-slate-100 placeholder:text-slate-400"
+              />
+            </div>
+            <Button
+              onClick={handleSavePassword}
+              disabled={savingPassword || !newPassword || (hasPassword && !currentPassword)}
+            >
+              {t("settings.save")}
+            </Button>
+          </div>
+
+          {/* Sign-in methods */}
+          <div className={cardCls}>
+            <div className="text-sm text-slate-200/90 font-medium">
+              {t("settings.providers.title")}
+            </div>
+            <div className="divide-y divide-slate-800/70 rounded-lg border border-slate-800">
+              {hasPassword && (
+                <div className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <span className="text-slate-100">{t("settings.providers.password")}</span>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => handleUnlink("password", t("settings.providers.password"))}
+                    disabled={!!linking || linked.size <= 1}
+                  >
+                    {t("settings.providers.unlink")}
+                  </Button>
+                </div>
+              )}
+              {(Object.keys(PROVIDER_IDS) as OAuthProviderId[]).map((id) => {
+                const providerId = PROVIDER_IDS[id];
+                const isLinked = linked.has(providerId);
+                return (
+                  <div
+                    key={id}
+                    className="flex items-center justify-between gap-3 px-3 py-2 text-sm"
+                  >
+                    <span className="text-slate-100">
+                      {PROVIDER_LABELS[id]}
+                      {isLinked && (
+                        <span className="ml-2 text-xs text-emerald-300">
+                          ✓ {t("settings.providers.connected")}
+                        </span>
+                      )}
+                    </span>
+                    {isLinked ? (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleUnlink(providerId, PROVIDER_LABELS[id])}
+                        disabled={!!linking || linked.size <= 1}
+                      >
+                        {t("settings.providers.unlink")}
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleLink(id)}
+                        disabled={!!linking}
+                      >
+                        {linking === id ? t("common.working") : t("settings.providers.link")}
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {linked.size <= 1 && (
+              <div className="text-xs text-slate-300/70">{t("settings.providers.lastOne")}</div>
+            )}
+          </div>
+
+          {/* Upload defaults */}
+          <div className={cardCls}>
+            <div className="text-sm text-slate-200/90 font-medium">
+              {t("settings.defaults.title")}
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs text-slate-300/80">{t("upload.expiresAfter")}</div>
+              <div className="flex flex-wrap gap-2">
+                {EXPIRY_PRESETS.filter((p) => p.value !== "custom").map((p) => (
+                  <Button
+                    key={p.value}
+                    type="button"
+                    size="sm"
+                    variant={prefs.defaultExpiry === p.value ? "default" : "secondary"}
+                    onClick={() =>
+                      setPrefs((prev) => ({
+                        ...prev,
+                        defaultExpiry: p.value as UserPreferences["defaultExpiry"],
+                      }))
+                    }
+                  >
+                    {t(p.label)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs text-slate-300/80">
+                {t("settings.defaults.emailMessage")}
+              </div>
+              <textarea
+                value={prefs.defaultEmailMessage}
+                onChange={(e) =>
+                  setPrefs((prev) => ({ ...prev, defaultEmailMessage: e.target.value }))
+                }
+                rows={3}
+                maxLength={1000}
+                placeholder={t("upload.email.messagePlaceholder")}
+                className="w-full rounded-md border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <Button onClick={handleSavePrefs}>{t("settings.save")}</Button>
+          </div>
+
+          {/* Language */}
+          <div className={cardCls}>
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-sm text-slate-200/90 font-medium">{t("common.language")}</div>
+              <LanguageSwitcher />
+            </div>
+          </div>
+
+          {/* Danger zone */}
+          <div className="rounded-2xl border border-red-900/60 bg-red-950/20 p-5 space-y-3">
+            <div className="text-sm font-medium text-red-200">{t("settings.delete.title")}</div>
+            <div className="text-sm text-slate-200/85">{t("settings.delete.description")}</div>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                setDeleteConfirm("");
+                setDeleteProgress("");
+                setDeleteOpen(true);
+              }}
+            >
+              {t("settings.delete.button")}
+            </Button>
+          </div>
+        </div>
+      </PageShell>
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onOpenChange={setDeleteOpen}
+        title={t("settings.delete.confirmTitle")}
+        description={t("settings.delete.confirmDescription")}
+        confirmLabel={t("settings.delete.button")}
+        destructive
+        confirmDisabled={!canDelete}
+        onConfirm={handleDeleteAccount}
+      >
+        <div className="space-y-3 text-sm text-slate-100">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="uploads-action"
+              checked={uploadsAction === "delete"}
+              onChange={() => setUploadsAction("delete")}
+              className="accent-red-400"
+            />
+            {t("settings.delete.deleteUploads")}
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="uploads-action"
+              checked={uploadsAction === "transfer"}
+              onChange={() => setUploadsAction("transfer")}
+              className="accent-indigo-400"
+            />
+            {t("settings.delete.transferUploads")}
+          </label>
+          {uploadsAction === "transfer" && (
+            <Input
+              type="email"
+              value={transferTo}
+              onChange={(e) => setTransferTo(e.target.value)}
+              placeholder={t("settings.delete.transferTo")}
+              className="text-slate-100 placeholder:text-slate-400"
+            />
+          )}
+
+          <div className="space-y-1 pt-2">
+            <div className="text-xs text-slate-300/80">
+              {t("settings.delete.typeToConfirm", { text: confirmText })}
+            </div>
+            <Input
+              value={deleteConfirm}
+              onChange={(e) => setDeleteConfirm(e.target.value)}
+              autoComplete="off"
+              className="text-slate-100"
+            />
+          </div>
+
+          {deleteProgress && <div className="text-xs text-slate-300/80">{deleteProgress}</div>}
+        </div>
+      </ConfirmDialog>
+    </>
+  );
+}
@@ -0,0 +1,295 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { TopRightBar } from "@/components/ui/TopRightBar";
+import { PageShell } from "@/components/ui/PageShell";
+import { useAuth } from "@/lib/auth";
+import {
+  api,
+  type TransferResponse,
+  type TransferStats,
+} from "@/lib/api";
+import { formatBytes, formatDate } from "@/lib/format";
+import { errorMessage, statusKey, useI18n } from "@/lib/i18n";
+
+const cardCls =
+  "rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-xl shadow-2xl p-5 space-y-3";
+
+function Stat({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/20 px-4 py-3">
+      <div className="text-xs text-slate-300/80">{label}</div>
+      <div className="mt-1 text-lg text-slate-100">{value}</div>
+    </div>
+  );
+}
+
+/** Owner-only view of a transfer: limits, per-file downloads and email history. */
+export default function TransferDetailsPage() {
+  const { transferId } = useParams();
+  const { user, signOut } = useAuth();
+  const userEmail = user?.email ?? null;
+  const { t } = useI18n();
+
+  const [data, setData] = useState<TransferResponse | null>(null);
+  const [stats, setStats] = useState<TransferStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function run() {
+      try {
+        setLoading(true);
+        setError("");
+        if (!transferId) throw new Error(t("common.missingTransferId"));
+
+        const transfer = await api.getTransfer(transferId);
+        // stats are owner-only; anyone else just gets the pointer to the download page
+        const transferStats =
+          user && transfer.ownerUid === user.uid
+            ? await api.getTransferStats(transferId)
+            : null;
+
+        if (!cancelled) {
+          setData(transfer);
+          setStats(transferStats);
+        }
+      } catch (e: unknown) {
+        if (!cancelled) setError(errorMessage(e, t, "common.unknownError"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [transferId, user, t]);
+
+  const isOwner = !!data && !!user && data.ownerUid === user.uid;
+
+  const perFile = useMemo(() => {
+    const counts = new Map<number | null, { count: number; last: number }>();
+    for (const d of stats?.downloads ?? []) {
+      const cur = counts.get(d.fileIndex) ?? { count: 0, last: 0 };
+      counts.set(d.fileIndex, {
+        count: cur.count + 1,
+        last: Math.max(cur.last, d.at),
+      });
+    }
+    return counts;
+  }, [stats]);
+
+  const downloadLog = useMemo(
+    () => [...(stats?.downloads ?? [])].sort((a, b) => b.at - a.at),
+    [stats]
+  );
+
+  const emailLog = useMemo(
+    () => [...(stats?.emails ?? [])].sort((a, b) => b.at - a.at),
+    [stats]
+  );
+
+  const shareUrl = transferId ? `${window.location.origin}/t/${transferId}` : "";
+
+  function fileLabel(idx: number | null) {
+    if (idx === null) return t("details.allFilesZip");
+    const f = data?.files?.[idx];
+    return f ? f.path || f.name : t("details.fileN", { n: idx + 1 });
+  }
+
+  return (
+    <>
+      <TopRightBar userEmail={userEmail} onSignOut={signOut} />
+
+      <PageShell maxWidth="max-w-5xl">
+        <div className="flex flex-col items-center gap-2 pb-6">
+          <div className="text-3xl font-semibold text-slate-100">
+            {t("details.title")}
+          </div>
+          {data?.title && (
+            <div className="text-lg text-slate-100 text-center break-words">{data.title}</div>
+          )}
+          <div className="text-xs text-slate-300/80 break-all">{transferId}</div>
+        </div>
+
+        {loading && (
+          <div className="rounded-xl border border-slate-800 bg-slate-950/20 p-4 text-sm text-slate-100">
+            {t("details.loading")}
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-xl border border-red-900/60 bg-red-950/30 p-4 text-sm text-red-100">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && data && !isOwner && (
+          <div className={cardCls}>
+            <div className="text-sm text-slate-200/85">
+              {t("details.ownerOnly")}
+            </div>
+            <Link to={`/t/${transferId}`}>
+              <Button variant="secondary">{t("details.openDownloadPage")}</Button>
+            </Link>
+          </div>
+        )}
+
+        {!loading && !error && data && isOwner && (
+          <div className="space-y-4">
+            <div className={cardCls}>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div className="text-xs text-slate-300/80 break-all">{shareUrl}</div>
+                <div className="flex gap-2">
+                  <Link to="/my-uploads">
+                    <Button variant="secondary">{t("details.backToUploads")}</Button>
+                  </Link>
+                  <Link to={`/t/${transferId}`}>
+                    <Button variant="secondary">{t("details.recipientView")}</Button>
+                  </Link>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                <Stat label={t("details.status")} value={t(statusKey(data.status))} />
+                <Stat
+                  label={t("details.totalDownloads")}
+                  value={stats?.downloads.length ?? 0}
+                />
+                <Stat
+                  label={t("details.downloadLimit")}
+                  value={
+                    data.maxDownloads != null
+                      ? `${data.downloadCount ?? 0} / ${data.maxDownloads}`
+                      : t("details.unlimited")
+                  }
+                />
+                <Stat label={t("details.emailsSent")} value={stats?.emails.length ?? 0} />
+              </div>
+
+              <div className="flex flex-col md:flex-row md:justify-between gap-2 pt-2 border-t border-slate-800/70 text-sm text-slate-200/85">
+                <div>
+                  {t("details.created")}{" "}
+                  <span className="text-slate-100">{formatDate(data.createdAt)}</span>
+                </div>
+                <div>
+                  {t("details.expires")}{" "}
+                  <span className="text-slate-100">{formatDate(data.expiresAt)}</span>
+                </div>
+                <div>
+                  {t("details.password")}{" "}
+                  <span className="text-slate-100">
+                    {data.passwordProtected ? t("details.passwordYes") : t("details.no")}
+                  </span>
+                </div>
+                <div>
+                  {t("details.encryption")}{" "}
+                  <span className="text-slate-100">
+                    {data.encrypted ? t("details.encryptionE2e") : t("details.encryptionNone")}
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            <div className={cardCls}>
+              <div className="text-sm text-slate-200/90 font-medium">
+                {t("details.files")}
+              </div>
+              <div className="space-y-2">
+                {(data.files ?? []).map((f, idx) => {
+                  const s = perFile.get(idx);
+                  return (
+                    <div
+                      key={f.objectPath ?? `${f.name}-${idx}`}
+                      className="flex items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-950/20 px-4 py-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="truncate text-slate-100">{f.path || f.name}</div>
+                        <div className="text-xs text-slate-300/80">
+                          {formatBytes(f.size)}
+                        </div>
+                        {f.note && (
+                          <div className="text-xs text-slate-300/80 break-words">📝 {f.note}</div>
+                        )}
+                      </div>
+                      <div className="text-right text-xs text-slate-300/80 shrink-0">
+                        <div className="text-sm text-slate-100">
+                          {t("details.downloadCount", { count: s?.count ?? 0 })}
+                        </div>
+                        {s && <div>{t("details.lastDownload", { date: formatDate(s.last) })}</div>}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {perFile.has(null) && (
+                  <div className="text-xs text-slate-300/80">
+                    {t("details.zipCount", { count: perFile.get(null)?.count ?? 0 })}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className={cardCls}>
+              <div className="text-sm text-slate-200/90 font-medium">
+                {t("details.downloadHistory")}
+              </div>
+              {downloadLog.length ? (
+                <div className="divide-y divide-slate-800/70 text-sm">
+                  {downloadLog.map((d, i) => (
+                    <div
+                      key={`${d.at}-${i}`}
+                      className="flex flex-col md:flex-row md:justify-between gap-1 py-2"
+                    >
+                      <div className="min-w-0 truncate text-slate-100">
+                        {fileLabel(d.fileIndex)}
+                      </div>
+                      <div className="text-slate-300/80">
+                        {d.by ?? t("details.anonymous")} • {formatDate(d.at)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-slate-300/80">{t("details.noDownloads")}</div>
+              )}
+            </div>
+
+            <div className={cardCls}>
+              <div className="text-sm text-slate-200/90 font-medium">
+                {t("details.emailHistory")}
+              </div>
+              {emailLog.length ? (
+                <div className="divide-y divide-slate-800/70 text-sm">
+                  {emailLog.map((e, i) => (
+                    <div
+                      key={`${e.at}-${i}`}
+                      className="flex flex-col md:flex-row md:justify-between gap-1 py-2"
+                    >
+                      <div className="min-w-0 truncate text-slate-100">{e.to}</div>
+                      <div
+                        className={
+                          e.status === "failed" ? "text-red-200" : "text-slate-300/80"
+                        }
+                        title={e.error}
+                      >
+                        {e.status === "failed" ? t("details.emailFailed") : t("details.emailSent")} •{" "}
+                        {formatDate(e.at)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-slate-300/80">{t("details.noEmails")}</div>
+              )}
+            </div>
+          </div>
+        )}
+      </PageShell>
+    </>
+  );
+}
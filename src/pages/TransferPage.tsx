@@ -1,60 +1,41 @@
-import { useEffect, useMemo, useState } from "react";
-import { useParams, Link } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useParams, Link, useLocation } from "react-router-dom";
 import { Button } from "../components/ui/button";
-import { getAuth } from "firebase/auth";
 import logo from "@/assets/logo.png";
 import { TopRightBar } from "@/components/ui/TopRightBar";
-import { signOut } from "firebase/auth";
-import { auth } from "@/lib/firebase";
 import { useAuth } from "@/lib/auth";
 import { PageShell } from "@/components/ui/PageShell";
+import { folderOf } from "@/lib/dropFiles";
+import {
+  api,
+  ApiError,
+  type TransferFile,
+  type TransferResponse,
+} from "@/lib/api";
+import { clearTransferAccess, setTransferAccess } from "@/lib/transferAccess";
+import { Input } from "@/components/ui/input";
+import { FilePreview } from "@/components/ui/FilePreview";
+import { RichText } from "@/components/ui/RichText";
+import { previewKind } from "@/lib/preview";
+import { Progress } from "@/components/ui/progress";
+import { formatBytes, formatDate, formatDuration, formatRate } from "@/lib/format";
+import {
+  canStreamToDisk,
+  navigateDownload,
+  streamDownload,
+  zipFileName,
+} from "@/lib/download";
+import { shortHash, withChecksum } from "@/lib/checksum";
+import { createRateMeter, isAbortError } from "@/lib/upload";
+import { decryptStream, importKey, keyFromHash } from "@/lib/e2e";
+import { createZipStream } from "@/lib/zipStream";
+import { copyText } from "@/lib/clipboard";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage, statusKey, useI18n, type I18nCtx } from "@/lib/i18n";
 
 
-type TransferFile = {
-  name: string;
-  type: string;
-  size: number;
-  objectPath: string;
-};
-
-type TransferResponse = {
-  ok: boolean;
-  transferId: string;
-  status: string;
-  createdAt: number;
-  completedAt: number | null;
-  expiresAt: number | null;
-  files: TransferFile[];
-};
-
-type DownloadUrlResponse = {
-  ok: boolean;
-  url?: string;
-  error?: string;
-};
-
-const API_BASE =
-  (import.meta.env.VITE_API_URL as string | undefined) ??
-  "https://api.swift-transfer.app";
-
-function formatBytes(bytes: number) {
-  if (!bytes) return "0 B";
-  const k = 1024;
-  const sizes = ["B", "KB", "MB", "GB"];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  const value = bytes / Math.pow(k, i);
-  return `${value.toFixed(value >= 10 || i === 0 ? 0 : 1)} ${sizes[i]}`;
-}
-
-function formatDate(ts: number) {
-  try {
-    return new Date(ts).toLocaleString();
-  } catch {
-    return "";
-  }
-}
-
 function StatusPill({ status }: { status?: string }) {
+  const { t } = useI18n();
   const s = (status || "").toLowerCase();
   const cls =
     s === "ready"
@@ -67,7 +48,7 @@ function StatusPill({ status }: { status?: string }) {
     <span
       className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs ${cls}`}
     >
-      {status || "unknown"}
+      {t(statusKey(status))}
     </span>
   );
 }
@@ -85,81 +66,154 @@ function fileIcon(name: string) {
   return "📄";
 }
 
-async function getIdTokenSafe(): Promise<string | null> {
-  const auth = getAuth();
-  const user = auth.currentUser;
-  if (!user) return null;
-
-  try {
-    return await user.getIdToken(true);
-  } catch {
-    return null;
-  }
+/** Files grouped by folder in the order the sender listed them, keeping their index for downloads. */
+function groupByFolder(files: TransferFile[]) {
+  const groups = new Map<string, Array<{ file: TransferFile; idx: number }>>();
+  files.forEach((file, idx) => {
+    const folder = folderOf(file.path || file.name);
+    if (!groups.has(folder)) groups.set(folder, []);
+    groups.get(folder)!.push({ file, idx });
+  });
+  return Array.from(groups, ([folder, items]) => ({ folder, items }));
 }
 
-// ✅ download helper: fetch + blob so Authorization header is sent
-async function downloadBlobSmart(url: string, filename: string) {
-  const isApiUrl =
-    url.startsWith(API_BASE) || url.startsWith("/") || url.startsWith(".");
-
-  // Dacă e URL extern (ex: GCS signed URL), NU trimitem Authorization (altfel CORS => Failed to fetch)
-  const headers: Record<string, string> = {};
-
-  if (isApiUrl) {
-    const token = await getIdTokenSafe();
-    if (!token) throw new Error("You must be signed in to download.");
-    headers.Authorization = `Bearer ${token}`;
-  }
+type StreamState = {
+  label: string;
+  loaded: number;
+  total: number | null;
+  rate: number;
+};
 
-  const res = await fetch(url, {
-    method: "GET",
-    headers: Object.keys(headers).length ? headers : undefined,
-  });
+function streamLabel(s: StreamState, t: I18nCtx["t"]) {
+  const rate = s.rate > 0 ? ` • ${formatRate(s.rate)}` : "";
+  if (s.total === null)
+    return t("transfer.received", { loaded: formatBytes(s.loaded) }) + rate;
+  const eta = s.rate > 0 ? (s.total - s.loaded) / s.rate : NaN;
+  return `${formatBytes(s.loaded)} / ${formatBytes(s.total)}${rate} • ${t(
+    "transfer.timeLeft",
+    { eta: formatDuration(eta) }
+  )}`;
+}
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`Download failed (${res.status}): ${text}`);
+function PasswordPrompt({
+  onUnlock,
+}: {
+  onUnlock: (password: string) => Promise<void>;
+}) {
+  const [password, setPassword] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState("");
+  const { t } = useI18n();
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!password) return;
+
+    setUnlocking(true);
+    setUnlockError("");
+    try {
+      await onUnlock(password);
+    } catch (err: unknown) {
+      setUnlockError(
+        err instanceof ApiError && (err.status === 401 || err.status === 403)
+          ? t("transfer.wrongPassword")
+          : err instanceof Error
+          ? err.message
+          : t("transfer.unlockFailed")
+      );
+    } finally {
+      setUnlocking(false);
+    }
   }
 
-  const blob = await res.blob();
-  const blobUrl = window.URL.createObjectURL(blob);
-
-  const a = document.createElement("a");
-  a.href = blobUrl;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-
-  window.URL.revokeObjectURL(blobUrl);
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-xl shadow-2xl p-5 space-y-3"
+    >
+      <div className="text-sm text-slate-200/90 font-medium">
+        🔒 {t("transfer.passwordProtected")}
+      </div>
+      <div className="text-sm text-slate-200/85">{t("transfer.passwordHint")}</div>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <Input
+          type="password"
+          autoFocus
+          autoComplete="off"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={t("transfer.password")}
+          className="text-slate-100 placeholder:text-slate-400"
+        />
+        <Button type="submit" disabled={unlocking || !password}>
+          {unlocking ? t("transfer.checking") : t("transfer.unlock")}
+        </Button>
+      </div>
+
+      {unlockError && <div className="text-sm text-red-200">{unlockError}</div>}
+    </form>
+  );
 }
 
 export default function TransferPage() {
   const { transferId } = useParams();
+  const location = useLocation();
+  // never sent to the server: fragments stay in the browser
+  const linkKey = useMemo(() => keyFromHash(location.hash), [location.hash]);
   const [data, setData] = useState<TransferResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
 
   const [downloadingIndex, setDownloadingIndex] = useState<number | null>(null);
   const [downloadingAll, setDownloadingAll] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const [streaming, setStreaming] = useState<StreamState | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const [checks, setChecks] = useState<Record<number, "verified" | "mismatch">>({});
 
-  const { user } = useAuth();
+  const { user, signOut } = useAuth();
   const userEmail = user?.email ?? null;
+  const { t } = useI18n();
+  const { toast } = useToast();
 
-  async function handleSignOut() {
-    await signOut(auth);
+  async function copyHash(hash: string) {
+    if (!(await copyText(hash))) {
+      toast({ variant: "destructive", title: t("common.copyFailed") });
+    }
   }
 
+  const hasChecksums = !!data?.files?.some((f) => f.sha256);
+  const mismatched = Object.entries(checks)
+    .filter(([, c]) => c === "mismatch")
+    .map(([idx]) => data?.files?.[Number(idx)]?.name ?? t("transfer.fileN", { n: Number(idx) + 1 }));
+
   const totalSize = useMemo(() => {
     if (!data?.files?.length) return 0;
     return data.files.reduce((sum, f) => sum + (f.size ?? 0), 0);
   }, [data]);
 
+  const folders = useMemo(() => groupByFolder(data?.files ?? []), [data]);
+
   const isExpired = useMemo(() => {
     if (!data?.expiresAt) return false;
     return Date.now() > data.expiresAt;
   }, [data?.expiresAt]);
 
+  const remainingDownloads = useMemo(() => {
+    if (data?.maxDownloads == null) return null;
+    return Math.max(0, data.maxDownloads - (data.downloadCount ?? 0));
+  }, [data?.maxDownloads, data?.downloadCount]);
+
+  const limitReached = remainingDownloads === 0;
+  const missingKey = !!data?.encrypted && !linkKey;
+
+  // the backend counts every served file / archive as one download
+  function countDownload() {
+    setData((d) => (d ? { ...d, downloadCount: (d.downloadCount ?? 0) + 1 } : d));
+  }
+
   useEffect(() => {
     let cancelled = false;
 
@@ -168,24 +222,17 @@ export default function TransferPage() {
         setLoading(true);
         setError("");
 
-        if (!transferId) throw new Error("Missing transferId in URL.");
+        if (!transferId) throw new Error(t("common.missingTransferId"));
 
-        
+        const json = await api.getTransfer(transferId);
 
-        const res = await fetch(`${API_BASE}/api/transfers/${transferId}`);
-
-
-        if (!res.ok) {
-          const text = await res.text();
-          throw new Error(`Failed to load transfer (${res.status}): ${text}`);
-        }
-
-        const json = (await res.json()) as TransferResponse;
+        // a stale unlock from earlier in the session no longer works
+        if (json.locked) clearTransferAccess(transferId);
 
         if (!cancelled) setData(json);
       } catch (e: unknown) {
         if (!cancelled)
-          setError(e instanceof Error ? e.message : "Unknown error");
+          setError(errorMessage(e, t, "common.unknownError"));
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -195,42 +242,118 @@ export default function TransferPage() {
     return () => {
       cancelled = true;
     };
-  }, [transferId]);
+  }, [transferId, reloadKey, t]);
+
+  async function handleUnlock(password: string) {
+    if (!transferId) return;
+    const { accessToken } = await api.unlockTransfer(transferId, password);
+    setTransferAccess(transferId, accessToken);
+    setReloadKey((k) => k + 1);
+  }
+
+  /** Pipe a response that needs our headers to disk, tracking bytes and speed. */
+  async function runStream(
+    label: string,
+    filename: string,
+    open: (signal: AbortSignal) => Promise<Response>
+  ) {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    const meter = createRateMeter();
+    setStreaming({ label, loaded: 0, total: null, rate: 0 });
+
+    try {
+      await streamDownload(open, filename, {
+        signal: controller.signal,
+        onProgress: ({ loaded, total }) => {
+          meter.push(loaded);
+          setStreaming({ label, loaded, total, rate: meter.rate() });
+        },
+      });
+      return true;
+    } catch (e: unknown) {
+      if (isAbortError(e)) return false;
+      throw e;
+    } finally {
+      streamAbortRef.current = null;
+      setStreaming(null);
+    }
+  }
+
+  function cancelStream() {
+    streamAbortRef.current?.abort();
+  }
+
+  // abort a running download when leaving the page
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+  /** Fetch one file of an encrypted transfer and decrypt it as it streams in. */
+  async function openDecrypted(id: string, idx: number, signal: AbortSignal) {
+    if (!linkKey) throw new Error(t("transfer.missingKeyError"));
+    const key = await importKey(linkKey);
+    const url = await api.getFileDownloadUrl(id, idx);
+    const res = await api.download(url, signal);
+    if (!res.body) throw new Error(t("transfer.emptyResponse"));
+
+    return new Response(res.body.pipeThrough(decryptStream(key)), {
+      headers: { "Content-Length": String(data?.files?.[idx]?.size ?? "") },
+    });
+  }
+
+  /** Hash the body as it streams and record whether it matches the upload. */
+  function verifying(idx: number, res: Response) {
+    const expected = data?.files?.[idx]?.sha256?.toLowerCase();
+    if (!expected) return res;
+    return withChecksum(res, (hex) =>
+      setChecks((c) => ({ ...c, [idx]: hex === expected ? "verified" : "mismatch" }))
+    );
+  }
 
   async function handleDownload(idx: number) {
     try {
       setError("");
-      if (!transferId) throw new Error("Missing transferId in URL.");
+      if (!transferId) throw new Error(t("common.missingTransferId"));
 
       setDownloadingIndex(idx);
 
-      const token = await getIdTokenSafe();
+      const file = data?.files?.[idx];
+      const filename = file?.name || `file-${idx + 1}`;
+
+      // read the bytes ourselves when they must be decrypted, or can be
+      // verified without buffering the whole file
+      if (data?.encrypted || (file?.sha256 && canStreamToDisk())) {
+        const finished = await runStream(filename, filename, async (signal) => {
+          if (data?.encrypted) {
+            return verifying(idx, await openDecrypted(transferId, idx, signal));
+          }
+          const url = await api.getFileDownloadUrl(transferId, idx);
+          return verifying(idx, await api.download(url, signal));
+        });
+        if (finished) countDownload();
+        return;
+      }
 
-      const res = await fetch(
-        `${API_BASE}/api/transfers/${transferId}/files/${idx}/download`,
-        {
-          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-        }
-      );
+      const url = await api.getFileDownloadUrl(transferId, idx);
 
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(`Download link failed (${res.status}): ${text}`);
+      // signed storage URLs need no Authorization: let the browser download them
+      if (!api.isApiUrl(url)) {
+        navigateDownload(url, filename);
+        countDownload();
+        return;
       }
 
-      const json = (await res.json()) as DownloadUrlResponse;
-      if (!json.url) throw new Error(json.error || "Missing download url.");
-
-      const filename = data?.files?.[idx]?.name || `file-${idx + 1}`;
-      await downloadBlobSmart(json.url, filename);
+      const finished = await runStream(filename, filename, async (signal) =>
+        verifying(idx, await api.download(url, signal))
+      );
+      if (finished) countDownload();
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : "Download failed");
+      setError(errorMessage(e, t, "transfer.downloadFailed"));
     } finally {
       setDownloadingIndex(null);
     }
   }
 
-  // ✅ Download all as ZIP - uses fetch + blob so we can send Authorization header
+  // ZIP is built by our API, so it needs our headers and can't be a plain link
   async function handleDownloadAllZip() {
     try {
       setError("");
@@ -238,41 +361,42 @@ export default function TransferPage() {
 
       setDownloadingAll(true);
 
-      const token = await getIdTokenSafe();
-
-      const res = await fetch(
-        `${API_BASE}/api/transfers/${transferId}/download.zip`,
-        {
-          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      const files = data?.files ?? [];
+      const finished = await runStream(
+        t("transfer.allFilesZip"),
+        zipFileName(data?.title, transferId),
+        async (signal) => {
+          if (!data?.encrypted) return api.downloadZip(transferId, signal);
+
+          // the server only has ciphertext, so the archive is built here
+          const zip = createZipStream(
+            files.map((f, idx) => ({
+              name: f.path || f.name,
+              size: f.size,
+              open: async () => {
+                const res = verifying(
+                  idx,
+                  await openDecrypted(transferId, idx, signal)
+                );
+                countDownload();
+                return res.body!;
+              },
+            }))
+          );
+          return new Response(zip);
         }
       );
-
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(`ZIP download failed (${res.status}): ${text}`);
-      }
-
-      const blob = await res.blob();
-      const url = window.URL.createObjectURL(blob);
-
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `swift-transfer-${transferId}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      a.remove();
-
-      window.URL.revokeObjectURL(url);
+      if (finished && !data?.encrypted) countDownload();
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : "ZIP download failed");
+      setError(errorMessage(e, t, "transfer.zipFailed"));
     } finally {
-      setTimeout(() => setDownloadingAll(false), 400);
+      setDownloadingAll(false);
     }
   }
 
   return (
     <>
-      <TopRightBar userEmail={userEmail} onSignOut={handleSignOut} />
+      <TopRightBar userEmail={userEmail} onSignOut={signOut} />
 
       <a
   href="https://docs.google.com/forms/d/e/1FAIpQLSfz4oGM7ITJfXZjBal4vyBHaTbASKg2ZLW6BmPRhXysZ30Umg/viewform?usp=dialog"
@@ -288,7 +412,7 @@ export default function TransferPage() {
     transition-colors
   "
 >
-  Share feedback
+  {t("common.feedback")}
 </a>
 
       <PageShell maxWidth="max-w-5xl">
@@ -303,14 +427,21 @@ export default function TransferPage() {
             />
           </div>
 
-          <div className="text-3xl font-semibold text-slate-100">Transfer</div>
+          <div className="text-3xl font-semibold text-slate-100 text-center break-words">
+            {data?.title || t("transfer.title")}
+          </div>
+          {data?.senderName && (
+            <div className="text-sm text-slate-200/85">
+              {t("transfer.from", { name: data.senderName })}
+            </div>
+          )}
           <div className="text-xs text-slate-300/80 break-all">{transferId}</div>
         </div>
 
         {/* Loading / error */}
         {loading && (
           <div className="rounded-xl border border-slate-800 bg-slate-950/20 p-4 text-sm text-slate-100">
-            Loading transfer...
+            {t("transfer.loading")}
           </div>
         )}
 
@@ -323,28 +454,52 @@ export default function TransferPage() {
         {/* Content */}
         {!loading && !error && data && (
           <div className="space-y-4">
+            {data.message && (
+              <div className="rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-xl shadow-2xl p-5 text-sm text-slate-100">
+                <RichText text={data.message} />
+              </div>
+            )}
+
             {/* Meta card */}
             <div className="rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-xl shadow-2xl p-5 space-y-3">
               <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
                 <div className="flex items-center gap-2">
                   <StatusPill status={data?.status} />
+                  {data.passwordProtected && (
+                    <span className="text-sm" title={t("transfer.passwordProtectedShort")}>
+                      🔒
+                    </span>
+                  )}
+                  {data.encrypted && (
+                    <span className="inline-flex items-center rounded-full border border-emerald-500/30 bg-emerald-500/15 px-2.5 py-1 text-xs text-emerald-200">
+                      🔐 {t("transfer.encrypted")}
+                    </span>
+                  )}
                   {data?.files?.length ? (
                     <div className="text-sm text-slate-200/80">
-                      {data.files.length} file(s) • {formatBytes(totalSize)}
+                      {t("transfer.filesSummary", {
+                        count: data.files.length,
+                        size: formatBytes(totalSize),
+                      })}
                     </div>
                   ) : null}
                 </div>
 
                 <div className="flex items-center gap-2">
+                  {user && data.ownerUid === user.uid && (
+                    <Link to={`/my-uploads/${transferId}`}>
+                      <Button variant="secondary">{t("transfer.ownerView")}</Button>
+                    </Link>
+                  )}
                   <Link to="/">
-                    <Button variant="secondary">← Back</Button>
+                    <Button variant="secondary">← {t("transfer.back")}</Button>
                   </Link>
                 </div>
               </div>
 
               <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 pt-2 border-t border-slate-800/70">
                 <div className="text-sm text-slate-200/85">
-                  Created:{" "}
+                  {t("transfer.created")}{" "}
                   <span className="text-slate-100">
                     {formatDate(data.createdAt)}
                   </span>
@@ -352,7 +507,7 @@ export default function TransferPage() {
 
                 {data.expiresAt ? (
                   <div className="text-sm text-slate-200/85">
-                    Expires:{" "}
+                    {t("transfer.expires")}{" "}
                     <span
                       className={isExpired ? "text-red-200" : "text-slate-100"}
                     >
@@ -362,67 +517,216 @@ export default function TransferPage() {
                 ) : null}
               </div>
 
+              {remainingDownloads !== null && (
+                <div className="text-sm text-slate-200/85">
+                  {t("transfer.downloadsLeft")}{" "}
+                  <span className={limitReached ? "text-red-200" : "text-slate-100"}>
+                    {t("transfer.nOfMax", {
+                      n: remainingDownloads,
+                      max: data.maxDownloads ?? 0,
+                    })}
+                  </span>
+                </div>
+              )}
+
               {isExpired && (
                 <div className="text-sm text-red-200">
-                  ⚠️ This transfer is expired.
+                  ⚠️ {t("transfer.expired")}
                 </div>
               )}
 
-              <div className="pt-3 border-t border-slate-800/70 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
-                <div className="text-sm text-slate-200/85">
-                  You can download files individually or all at once as a single
-                  .zip archive.
+              {!isExpired && limitReached && (
+                <div className="text-sm text-red-200">
+                  ⚠️ {t("transfer.limitReached")}
                 </div>
+              )}
 
-                <Button
-                  variant="secondary"
-                  onClick={handleDownloadAllZip}
-                  disabled={isExpired || !data?.files?.length || downloadingAll}
-                >
-                  {downloadingAll ? "Preparing..." : "Download all (ZIP)"}
-                </Button>
-              </div>
-            </div>
+              {missingKey && (
+                <div className="text-sm text-red-200">
+                  ⚠️ {t("transfer.missingKey")}
+                </div>
+              )}
 
-            {/* Files card */}
-            <div className="rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-xl shadow-2xl p-5 space-y-3">
-              <div className="text-sm text-slate-200/90 font-medium">Files</div>
-
-              {data.files?.length ? (
-                <div className="space-y-2">
-                  {data.files.map((f, idx) => (
-                    <div
-                      key={f.objectPath ?? `${f.name}-${idx}`}
-                      className="flex items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-950/20 px-4 py-3"
-                    >
-                      <div className="flex items-center gap-3 min-w-0">
-                        <div className="text-xl">{fileIcon(f.name)}</div>
-                        <div className="min-w-0">
-                          <div className="truncate text-slate-100">{f.name}</div>
-                          <div className="text-xs text-slate-300/80">
-                            {formatBytes(f.size)}
-                          </div>
-                        </div>
-                      </div>
+              {!data.locked && (
+                <div className="pt-3 border-t border-slate-800/70 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="text-sm text-slate-200/85">
+                    {data.encrypted
+                      ? t("transfer.encryptedHint")
+                      : t("transfer.downloadHint")}
+                  </div>
 
-                      <Button
-                        variant="secondary"
-                        onClick={() => handleDownload(idx)}
-                        disabled={downloadingIndex === idx || isExpired}
-                      >
-                        {downloadingIndex === idx ? "Generating..." : "Download"}
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="rounded-lg border border-slate-800 bg-slate-950/25 p-4 text-sm text-slate-200/80">
-                  No files found for this transfer.
+                  <Button
+                    variant="secondary"
+                    onClick={handleDownloadAllZip}
+                    disabled={
+                      isExpired ||
+                      limitReached ||
+                      missingKey ||
+                      !data?.files?.length ||
+                      downloadingAll ||
+                      !!streaming
+                    }
+                  >
+                    {downloadingAll ? t("transfer.preparing") : t("transfer.downloadAll")}
+                  </Button>
                 </div>
               )}
             </div>
+
+            {streaming && (
+              <div className="rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-xl shadow-2xl p-5 space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="truncate text-sm text-slate-100">
+                      {t("transfer.downloading", { name: streaming.label })}
+                    </div>
+                    <div className="text-xs text-slate-300/80">
+                      {streamLabel(streaming, t)}
+                    </div>
+                  </div>
+                  <Button variant="secondary" onClick={cancelStream}>
+                    {t("common.cancel")}
+                  </Button>
+                </div>
+                <Progress
+                  value={
+                    streaming.total ? (streaming.loaded / streaming.total) * 100 : 100
+                  }
+                  className={streaming.total ? "" : "animate-pulse"}
+                />
+              </div>
+            )}
+
+            {data.locked && <PasswordPrompt onUnlock={handleUnlock} />}
+
+            {/* Files card */}
+            {!data.locked && (
+              <div className="rounded-2xl border border-slate-800 bg-slate-900/35 backdrop-blur-xl shadow-2xl p-5 space-y-3">
+                <div className="text-sm text-slate-200/90 font-medium">{t("transfer.files")}</div>
+
+                {mismatched.length > 0 && (
+                  <div className="rounded-lg border border-red-700/70 bg-red-950/50 p-4 text-sm text-red-100 space-y-1">
+                    <div className="font-medium">
+                      ⚠️ {t("transfer.mismatchTitle")}
+                    </div>
+                    <div>{t("transfer.mismatchBody", { files: mismatched.join(", ") })}</div>
+                  </div>
+                )}
+
+                {hasChecksums && !data.encrypted && !canStreamToDisk() && (
+                  <div className="text-xs text-slate-300/80">
+                    {t("transfer.manualVerify")}
+                  </div>
+                )}
+
+                {data.files?.length ? (
+                  <div className="space-y-4">
+                    {folders.map(({ folder, items }) => (
+                      <div key={folder || "/"} className="space-y-2">
+                        {folder && (
+                          <div className="flex items-center gap-2 text-sm text-slate-200/85 break-all">
+                            <span>📁</span>
+                            <span>{folder}/</span>
+                          </div>
+                        )}
+
+                        {items.map(({ file: f, idx }) => (
+                          <div
+                            key={f.objectPath ?? `${f.name}-${idx}`}
+                            className={`flex items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-950/20 px-4 py-3 ${
+                              folder ? "ml-4" : ""
+                            }`}
+                          >
+                            <div className="flex items-center gap-3 min-w-0">
+                              <div className="text-xl">{fileIcon(f.name)}</div>
+                              <div className="min-w-0">
+                                <div className="truncate text-slate-100">{f.name}</div>
+                                <div className="text-xs text-slate-300/80">
+                                  {formatBytes(f.size)}
+                                </div>
+                                {f.note && (
+                                  <div className="text-xs text-slate-200/85 whitespace-pre-wrap break-words">
+                                    📝 {f.note}
+                                  </div>
+                                )}
+                                {f.sha256 && (
+                                  <div className="flex flex-wrap items-center gap-2 text-xs text-slate-300/70">
+                                    <button
+                                      type="button"
+                                      title={t("transfer.hashTitle", { hash: f.sha256 })}
+                                      onClick={() => copyHash(f.sha256!)}
+                                      className="font-mono hover:text-slate-100"
+                                    >
+                                      SHA-256 {shortHash(f.sha256)}
+                                    </button>
+                                    {checks[idx] === "verified" && (
+                                      <span className="text-emerald-300">✓ {t("transfer.verified")}</span>
+                                    )}
+                                    {checks[idx] === "mismatch" && (
+                                      <span className="font-medium text-red-300">
+                                        ✗ {t("transfer.mismatch")}
+                                      </span>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+
+                            <div className="flex gap-2 shrink-0">
+                              {!data.encrypted && previewKind(f.name, f.type) && (
+                                <Button
+                                  variant="secondary"
+                                  onClick={() => setPreviewIndex(idx)}
+                                  disabled={isExpired || limitReached}
+                                >
+                                  {t("transfer.preview")}
+                                </Button>
+                              )}
+                              <Button
+                                variant="secondary"
+                                onClick={() => handleDownload(idx)}
+                                disabled={
+                                  downloadingIndex === idx ||
+                                  isExpired ||
+                                  limitReached ||
+                                  missingKey ||
+                                  !!streaming
+                                }
+                              >
+                                {downloadingIndex === idx ? t("transfer.generating") : t("common.download")}
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="rounded-lg border border-slate-800 bg-slate-950/25 p-4 text-sm text-slate-200/80">
+                    {t("transfer.noFiles")}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
+
+        {transferId && (
+          <FilePreview
+            transferId={transferId}
+            index={previewIndex ?? 0}
+            file={previewIndex !== null ? data?.files?.[previewIndex] ?? null : null}
+            onOpenChange={(open) => !open && setPreviewIndex(null)}
+            onDownload={() => previewIndex !== null && handleDownload(previewIndex)}
+            downloadDisabled={
+              previewIndex === null ||
+              downloadingIndex === previewIndex ||
+              !!streaming ||
+              isExpired ||
+              limitReached
+            }
+          />
+        )}
       </PageShell>
     </>
   );
@@ -0,0 +1,1753 @@
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { TopRightBar } from "@/components/ui/TopRightBar";
+import { PageShell } from "@/components/ui/PageShell";
+import { SharePanel } from "@/components/ui/SharePanel";
+import { VerifyEmailCard } from "@/components/ui/VerifyEmailCard";
+import {
+  DuplicateFilesDialog,
+  type DuplicateChoice,
+} from "@/components/ui/DuplicateFilesDialog";
+import { api, ApiError, type EmailDelivery } from "@/lib/api";
+import {
+  EXPIRY_PRESETS,
+  resolveExpiry,
+  toDateInputValue,
+  type ExpiryPreset,
+} from "@/lib/expiry";
+import { formatBytes, formatDate, formatDuration, formatRate } from "@/lib/format";
+import { errorMessage, useI18n, type I18nCtx } from "@/lib/i18n";
+import { useAuth } from "@/lib/auth";
+import { needsEmailVerification } from "@/lib/signIn";
+import { loadPreferences } from "@/lib/preferences";
+import { createRateMeter } from "@/lib/upload";
+import { sha256OfBlob } from "@/lib/checksum";
+import { findDuplicates } from "@/lib/duplicates";
+import { takeSharedFiles } from "@/lib/pwa";
+import {
+  DEFAULT_UPLOAD_POLICY,
+  checkUploadPolicy,
+  fetchUploadPolicy,
+  type PolicyIssue,
+} from "@/lib/uploadPolicy";
+import { useOnline } from "@/hooks/use-online";
+import {
+  loadRecentRecipients,
+  MAX_RECIPIENTS,
+  parseRecipients,
+  rememberRecipients,
+} from "@/lib/recipients";
+import {
+  filesFromDataTransfer,
+  filesFromInput,
+  type PickedFile,
+} from "@/lib/dropFiles";
+import {
+  DEFAULT_CONCURRENCY,
+  MAX_CONCURRENCY,
+  runUploadQueue,
+} from "@/lib/uploadQueue";
+import {
+  queryUploadedOffset,
+  startResumableSession,
+  uploadResumable,
+} from "@/lib/resumable";
+import {
+  ENCRYPTED_CONTENT_TYPE,
+  encryptedSize,
+  encryptedSource,
+  generateKey,
+  generateNonce,
+  importKey,
+  keyFragment,
+} from "@/lib/e2e";
+import {
+  clearUploadSession,
+  entryKey,
+  fileKey,
+  loadUploadSession,
+  saveUploadSession,
+  type StoredUploadFile,
+  type StoredUploadSession,
+} from "@/lib/uploadSession";
+
+// Logo (Upload Page)
+import logo from "@/assets/logo.png";
+
+type SelectedFile = {
+  file: File;
+  id: string;
+  /** relative path inside a dropped/selected folder, else the file name */
+  path: string;
+  /** name to upload as; starts as the file's own name */
+  name: string;
+  note: string;
+};
+
+const MAX_NOTE_LENGTH = 200;
+const MAX_TITLE_LENGTH = 120;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_SENDER_NAME_LENGTH = 80;
+
+/** `path` with its last segment replaced by the (possibly renamed) upload name. */
+function uploadPath(f: SelectedFile) {
+  const slash = f.path.lastIndexOf("/");
+  return slash >= 0 ? `${f.path.slice(0, slash + 1)}${f.name}` : f.name;
+}
+
+type FileUploadState =
+  | "queued"
+  | "uploading"
+  | "retrying"
+  | "offline"
+  | "done"
+  | "cancelled"
+  | "error";
+
+type FileProgress = {
+  state: FileUploadState;
+  loaded: number;
+  /** bytes / second */
+  rate: number;
+};
+
+function fileProgressLabel(p: FileProgress, size: number, t: I18nCtx["t"]) {
+  switch (p.state) {
+    case "done":
+      return `${formatBytes(size)} • ${t("upload.file.uploaded")}`;
+    case "cancelled":
+      return `${formatBytes(size)} • ${t("upload.file.cancelled")}`;
+    case "error":
+      return `${formatBytes(p.loaded)} / ${formatBytes(size)} • ${t("upload.file.failed")}`;
+    case "retrying":
+      return `${formatBytes(p.loaded)} / ${formatBytes(size)} • ${t("upload.file.retrying")}`;
+    case "offline":
+      return `${formatBytes(p.loaded)} / ${formatBytes(size)} • ${t("upload.file.offline")}`;
+    default: {
+      const eta = p.rate > 0 ? (size - p.loaded) / p.rate : Infinity;
+      return `${formatBytes(p.loaded)} / ${formatBytes(size)} • ${formatRate(
+        p.rate
+      )} • ${t("upload.timeLeft", { eta: formatDuration(eta) })}`;
+    }
+  }
+}
+
+function policyIssueLabel(issue: PolicyIssue, t: I18nCtx["t"]) {
+  switch (issue.code) {
+    case "blockedType":
+      return t("upload.policy.blockedType", { extension: issue.extension });
+    case "fileTooLarge":
+      return t("upload.policy.fileTooLarge", { max: formatBytes(issue.max) });
+    case "tooManyFiles":
+      return t("upload.policy.tooManyFiles", { max: issue.max });
+    case "totalTooLarge":
+      return t("upload.policy.totalTooLarge", { max: formatBytes(issue.max) });
+  }
+}
+
+type UploadPair = { selected: SelectedFile; entry: StoredUploadFile };
+
+const MIN_PASSWORD_LENGTH = 4;
+
+const CONCURRENCY_KEY = "swift-transfer:upload-concurrency";
+
+function loadConcurrency() {
+  const n = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return n >= 1 && n <= MAX_CONCURRENCY ? n : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Pair the entries of a stored session with re-selected files. Copies kept on
+ * purpose share a key, so each entry takes the next unclaimed file with its
+ * key instead of all of them landing on the same one.
+ */
+function pairSessionFiles(session: StoredUploadSession, files: SelectedFile[]) {
+  const byKey = new Map<string, SelectedFile[]>();
+  for (const f of files) {
+    const key = fileKey(f.file);
+    byKey.set(key, [...(byKey.get(key) ?? []), f]);
+  }
+  const pairs: UploadPair[] = [];
+  for (const entry of session.files) {
+    const selected = byKey.get(entryKey(entry))?.shift();
+    if (selected) pairs.push({ selected, entry });
+  }
+  return pairs;
+}
+
+/** Pair re-selected files with the not-yet-uploaded entries of a stored session. */
+function matchSessionFiles(session: StoredUploadSession, files: SelectedFile[]) {
+  return pairSessionFiles(session, files).filter((p) => !p.entry.done);
+}
+
+type DuplicatePrompt = {
+  incoming: SelectedFile[];
+  /** incoming id -> id of the file it repeats */
+  duplicates: Map<string, string>;
+  choose: (choice: DuplicateChoice) => void;
+};
+
+/** The list after adding a batch, handling its duplicates as the user chose. */
+function withIncoming(
+  list: SelectedFile[],
+  { incoming, duplicates }: Pick<DuplicatePrompt, "incoming" | "duplicates">,
+  choice: DuplicateChoice
+) {
+  if (choice === "keep" || !duplicates.size) return [...list, ...incoming];
+
+  // "replace" swaps listed files for their new copies; repeats within the
+  // new batch itself are always skipped
+  const incomingIds = new Set(incoming.map((f) => f.id));
+  const replaced = new Set(
+    choice === "replace"
+      ? [...duplicates.values()].filter((id) => !incomingIds.has(id))
+      : []
+  );
+  const taken = new Set<string>();
+  const added = incoming.filter((f) => {
+    const original = duplicates.get(f.id);
+    if (!original) return true;
+    if (!replaced.has(original) || taken.has(original)) return false;
+    taken.add(original);
+    return true;
+  });
+
+  return [...list.filter((f) => !replaced.has(f.id)), ...added];
+}
+
+export default function UploadPage() {
+  const { user, signOut } = useAuth();
+  const userEmail = user?.email ?? "";
+  const uid = user?.uid ?? "";
+  const { t } = useI18n();
+  // read once; edited on the settings page
+  const [prefs] = useState(() => loadPreferences(uid));
+
+  const [files, setFiles] = useState<SelectedFile[]>([]);
+  // newly added files that repeat ones already listed, waiting for the user's choice
+  const [duplicatePrompt, setDuplicatePrompt] = useState<DuplicatePrompt | null>(null);
+  // added batches are checked one at a time, each against the list the previous one left
+  const filesRef = useRef(files);
+  const addQueue = useRef(Promise.resolve());
+  const [compareContents, setCompareContents] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; value: string } | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [status, setStatus] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const [shareUrl, setShareUrl] = useState<string>("");
+  const [shareTransferId, setShareTransferId] = useState("");
+  const [emailTo, setEmailTo] = useState("");
+  const [emailMsg, setEmailMsg] = useState(prefs.defaultEmailMessage);
+  const [isSendingEmail, setIsSendingEmail] = useState(false);
+  const [emailStatus, setEmailStatus] = useState<string>("");
+  const [deliveries, setDeliveries] = useState<EmailDelivery[]>([]);
+  const [recentRecipients, setRecentRecipients] = useState(() =>
+    uid ? loadRecentRecipients(uid) : []
+  );
+  const recipients = useMemo(() => parseRecipients(emailTo), [emailTo]);
+  const recentSuggestions = useMemo(() => {
+    const chosen = new Set(recipients.valid.map((e) => e.toLowerCase()));
+    return recentRecipients.filter((e) => !chosen.has(e.toLowerCase())).slice(0, 8);
+  }, [recentRecipients, recipients]);
+
+  const [isFinalizing, setIsFinalizing] = useState(false);
+
+  const [pendingSession, setPendingSession] =
+    useState<StoredUploadSession | null>(() =>
+      uid ? loadUploadSession(uid) : null
+    );
+  // an unfinished upload brings back the options it was started with
+  const [savedOptions] = useState(() => pendingSession?.options);
+
+  // only a "password required" flag goes into the stored session, never the password
+  const [password, setPassword] = useState("");
+  const [sharedWithPassword, setSharedWithPassword] = useState(false);
+  const [expiryPreset, setExpiryPreset] = useState<ExpiryPreset>(
+    savedOptions?.expiryPreset ?? prefs.defaultExpiry
+  );
+  const [customExpiry, setCustomExpiry] = useState(savedOptions?.customExpiry ?? "");
+  const [maxDownloads, setMaxDownloads] = useState(savedOptions?.maxDownloads ?? "");
+  const [encrypt, setEncrypt] = useState(false);
+  // shown to recipients on the transfer page
+  const [title, setTitle] = useState(savedOptions?.title ?? "");
+  const [message, setMessage] = useState(savedOptions?.message ?? "");
+  const [senderName, setSenderName] = useState(
+    savedOptions?.senderName ?? user?.displayName ?? ""
+  );
+  // key of the last finished encrypted transfer; only ever shown in the link
+  const [shareKey, setShareKey] = useState("");
+
+  const [progress, setProgress] = useState<Record<string, FileProgress>>({});
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const sessionRef = useRef<StoredUploadSession | null>(null);
+  const entryById = useRef(new Map<string, StoredUploadFile>());
+
+  const [failedCount, setFailedCount] = useState(0);
+  const [concurrency, setConcurrency] = useState(loadConcurrency);
+
+  useEffect(() => {
+    localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+  }, [concurrency]);
+
+  const online = useOnline();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sharedTaken = useRef(false);
+
+  const addSharedFiles = useEffectEvent((shared: File[]) => {
+    addFiles(shared.map((file) => ({ file, path: file.name })));
+  });
+
+  // files shared from the OS arrive through the service worker (see lib/pwa.ts)
+  useEffect(() => {
+    if (searchParams.get("shared") !== "1" || sharedTaken.current) return;
+    sharedTaken.current = true;
+
+    takeSharedFiles()
+      .then((shared) => addSharedFiles(shared))
+      .catch(() => setError(t("upload.error.sharedFailed")))
+      .finally(() => setSearchParams({}, { replace: true }));
+  }, [searchParams, setSearchParams, t]);
+
+  // uploads that gave up while the network was flaky pick up again on their own,
+  // and so does a /complete call that failed after everything was uploaded
+  const resumeAfterReconnect = useEffectEvent(() => {
+    if (isUploading || isFinalizing || !pendingSession) return;
+    if (failedCount > 0 && resumePairs.length) {
+      handleResume();
+    } else if (
+      finalizePending &&
+      !missingPassword(pendingSession) &&
+      !missingKey(pendingSession)
+    ) {
+      handleResume();
+    }
+  });
+
+  useEffect(() => {
+    const onOnline = () => resumeAfterReconnect();
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, []);
+
+  const resumePairs = useMemo(
+    () => (pendingSession ? matchSessionFiles(pendingSession, files) : []),
+    [pendingSession, files]
+  );
+  // every file is uploaded; only publishing the transfer is left
+  const finalizePending =
+    !!pendingSession?.files.length && pendingSession.files.every((e) => e.done);
+
+  const [policy, setPolicy] = useState(DEFAULT_UPLOAD_POLICY);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchUploadPolicy().then((p) => {
+      if (!cancelled) setPolicy(p);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // flagged files stay in the list (with the reason) but are left out of the upload
+  const policyIssues = useMemo(() => checkUploadPolicy(files, policy), [files, policy]);
+  const acceptedFiles = useMemo(
+    () => files.filter((f) => !policyIssues.has(f.id)),
+    [files, policyIssues]
+  );
+
+  const totalSize = useMemo(
+    () => files.reduce((sum, f) => sum + f.file.size, 0),
+    [files]
+  );
+
+  const overall = useMemo(() => {
+    let loaded = 0;
+    let rate = 0;
+    let size = 0;
+    for (const f of files) {
+      const p = progress[f.id];
+      if (!p || p.state === "cancelled") continue;
+      size += f.file.size;
+      loaded += p.state === "done" ? f.file.size : p.loaded;
+      if (p.state === "uploading") rate += p.rate;
+    }
+    return {
+      loaded,
+      size,
+      rate,
+      eta: rate > 0 ? (size - loaded) / rate : Infinity,
+    };
+  }, [files, progress]);
+
+  function patchProgress(id: string, patch: Partial<FileProgress>) {
+    setProgress((prev) => ({
+      ...prev,
+      [id]: { ...(prev[id] ?? { state: "queued", loaded: 0, rate: 0 }), ...patch },
+    }));
+  }
+
+  function persistSession() {
+    if (uid && sessionRef.current) saveUploadSession(uid, sessionRef.current);
+  }
+
+  function cancelFile(id: string) {
+    controllers.current.get(id)?.abort();
+    patchProgress(id, { state: "cancelled", rate: 0 });
+
+    // a cancelled file is left out of the transfer, also after a reload
+    const entry = entryById.current.get(id);
+    const session = sessionRef.current;
+    if (entry && session) {
+      session.files = session.files.filter((e) => e !== entry);
+      persistSession();
+    }
+  }
+
+  async function uploadEntry(id: string, file: File, entry: StoredUploadFile) {
+    const signal = controllers.current.get(id)?.signal;
+    const meter = createRateMeter();
+    // ciphertext is slightly larger than the file; keep the bar within the file size
+    const shown = (offset: number) => Math.min(offset, file.size);
+    patchProgress(id, { state: "uploading", loaded: shown(entry.offset), rate: 0 });
+
+    const encryptionKey = sessionRef.current?.encryptionKey;
+    const source =
+      encryptionKey && entry.nonce
+        ? encryptedSource(file, await importKey(encryptionKey), entry.nonce)
+        : file;
+    const contentType = encryptionKey ? ENCRYPTED_CONTENT_TYPE : entry.type;
+
+    if (entry.sessionUrl) {
+      entry.offset = await queryUploadedOffset(entry.sessionUrl, source.size, signal);
+    } else {
+      entry.sessionUrl = await startResumableSession(
+        entry.uploadUrl,
+        contentType,
+        signal
+      );
+      entry.offset = 0;
+    }
+    persistSession();
+    meter.push(entry.offset);
+
+    // hash the original file while it uploads; kept on the entry so retries skip it
+    const hashing = entry.sha256
+      ? Promise.resolve(entry.sha256)
+      : sha256OfBlob(file, signal).then((hex) => (entry.sha256 = hex));
+
+    const upload = uploadResumable(entry.sessionUrl, source, {
+      offset: entry.offset,
+      contentType,
+      signal,
+      onProgress: (loaded) => {
+        meter.push(loaded);
+        patchProgress(id, { loaded: shown(loaded), rate: meter.rate() });
+      },
+      onChunk: (offset) => {
+        entry.offset = offset;
+        persistSession();
+      },
+    });
+
+    await Promise.all([hashing, upload]);
+    entry.done = true;
+    persistSession();
+    patchProgress(id, { state: "done", loaded: file.size, rate: 0 });
+  }
+
+  /** Uploads in parallel; returns how many files failed after all retries. */
+  async function runUploads(pairs: UploadPair[]) {
+    controllers.current = new Map(
+      pairs.map(({ selected }) => [selected.id, new AbortController()])
+    );
+    entryById.current = new Map(
+      pairs.map(({ selected, entry }) => [selected.id, entry])
+    );
+    setProgress((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        pairs.map(({ selected, entry }) => [
+          selected.id,
+          { state: "queued", loaded: entry.offset, rate: 0 },
+        ])
+      ),
+    }));
+
+    const byId = new Map(pairs.map((p) => [p.selected.id, p]));
+    let uploaded = 0;
+
+    const result = await runUploadQueue(
+      pairs.map(({ selected, entry }) => ({
+        id: selected.id,
+        signal: controllers.current.get(selected.id)?.signal,
+        run: () => uploadEntry(selected.id, selected.file, entry),
+      })),
+      {
+        concurrency,
+        onRetry: (id, attempt) => {
+          patchProgress(id, { state: "retrying", rate: 0 });
+          setStatus(
+            t("upload.status.retrying", {
+              name: byId.get(id)?.selected.name ?? "",
+              attempt,
+            })
+          );
+        },
+        onDone: (id) => {
+          uploaded++;
+          setStatus(
+            t("upload.status.uploaded", {
+              done: uploaded,
+              total: pairs.length,
+              name: byId.get(id)?.selected.name ?? "",
+            })
+          );
+        },
+        onFail: (id) => patchProgress(id, { state: "error", rate: 0 }),
+        onOffline: (id) => {
+          patchProgress(id, { state: "offline", rate: 0 });
+          setStatus(t("upload.status.waitingForNetwork"));
+        },
+      }
+    );
+
+    return result.failed.length;
+  }
+
+  // after a reload the password is gone; never publish the transfer without it
+  function missingPassword(session: StoredUploadSession) {
+    return !!session.options?.passwordRequired && !password;
+  }
+
+  // the key only survives a reload in the same tab (see lib/uploadSession.ts)
+  function missingKey(session: StoredUploadSession) {
+    return !!session.encrypted && !session.encryptionKey;
+  }
+
+  async function finalize(session: StoredUploadSession) {
+    const uploaded = session.files.filter((e) => e.done);
+    if (!uploaded.length) {
+      clearUploadSession(uid);
+      throw new Error(t("upload.error.allCancelled"));
+    }
+    if (missingPassword(session)) {
+      throw new Error(t("upload.error.resumePassword"));
+    }
+    if (missingKey(session)) {
+      throw new Error(t("upload.error.resumeKey"));
+    }
+
+    setIsFinalizing(true);
+    setStatus(t("upload.status.finalizing"));
+
+    const completeJson = await api.completeTransfer({
+      transferId: session.transferId,
+      password: password || undefined,
+      expiresAt: resolveExpiry(expiryPreset, customExpiry) ?? undefined,
+      maxDownloads: maxDownloads ? Number(maxDownloads) : undefined,
+      encrypted: session.encryptionKey ? true : undefined,
+      title: title.trim() || undefined,
+      message: message.trim() || undefined,
+      senderName: senderName.trim() || undefined,
+      files: uploaded.map((e) => ({
+        name: e.name,
+        path: e.path,
+        type: e.type,
+        size: e.size,
+        objectPath: e.objectPath,
+        sha256: e.sha256,
+        note: e.note,
+      })),
+    });
+
+    if (!completeJson.shareUrl) {
+      throw new Error(t("upload.error.missingShareUrl"));
+    }
+
+    clearUploadSession(uid);
+    setSharedWithPassword(!!password);
+    setShareKey(session.encryptionKey ?? "");
+    setShareTransferId(session.transferId);
+    setDeliveries([]);
+    setShareUrl(completeJson.shareUrl);
+    setStatus(`✅ ${t("upload.status.complete")}`);
+  }
+
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    filesRef.current = files;
+  }, [files]);
+
+  function addFiles(picked: PickedFile[]) {
+    if (!picked.length) return Promise.resolve();
+
+    setShareUrl("");
+
+    const incoming: SelectedFile[] = picked.map(({ file, path }) => ({
+      file,
+      path,
+      id: crypto.randomUUID(),
+      name: file.name,
+      note: "",
+    }));
+
+    addQueue.current = addQueue.current
+      .then(() => addBatch(incoming))
+      .catch((e: unknown) =>
+        setError(errorMessage(e, t, "common.unknownError"))
+      );
+    return addQueue.current;
+  }
+
+  async function addBatch(incoming: SelectedFile[]) {
+    let duplicates = new Map<string, string>();
+
+    setCheckingDuplicates(true);
+    try {
+      const found = await findDuplicates(
+        [...filesRef.current, ...incoming],
+        compareContents
+      );
+      duplicates = new Map(
+        incoming.flatMap((f) => {
+          const original = found.get(f.id);
+          return original ? [[f.id, original] as const] : [];
+        })
+      );
+    } catch {
+      // a file could not be read for hashing; add everything as picked
+    } finally {
+      setCheckingDuplicates(false);
+    }
+
+    const choice = duplicates.size
+      ? await new Promise<DuplicateChoice>((choose) =>
+          setDuplicatePrompt({ incoming, duplicates, choose })
+        )
+      : "keep";
+    setDuplicatePrompt(null);
+
+    const apply = (list: SelectedFile[]) =>
+      withIncoming(list, { incoming, duplicates }, choice);
+    filesRef.current = apply(filesRef.current);
+    setFiles(apply);
+  }
+
+  function resolveDuplicates(choice: DuplicateChoice) {
+    duplicatePrompt?.choose(choice);
+  }
+
+  async function removeDuplicates() {
+    setError("");
+    setCheckingDuplicates(true);
+    try {
+      const found = await findDuplicates(files, compareContents);
+      setFiles((prev) => prev.filter((f) => !found.has(f.id)));
+      setStatus(
+        found.size
+          ? t("upload.duplicates.removed", { count: found.size })
+          : t("upload.duplicates.none")
+      );
+    } catch (e: unknown) {
+      setError(errorMessage(e, t, "common.unknownError"));
+    } finally {
+      setCheckingDuplicates(false);
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isUploading || isFinalizing) return;
+
+    filesFromDataTransfer(e.dataTransfer)
+      .then(addFiles)
+      .catch(() => setError(t("upload.error.dropFailed")));
+  }
+
+  function removeFile(id: string) {
+    setShareUrl("");
+    setFiles((prev) => prev.filter((f) => f.id !== id));
+  }
+
+  function commitRename() {
+    if (!renaming) return;
+    const name = renaming.value.trim();
+    setRenaming(null);
+    if (!name) return;
+    if (/[\\/]/.test(name)) {
+      setError(t("upload.rename.invalid"));
+      return;
+    }
+    // two entries with the same path would collide in the recipient's ZIP
+    const renamed = files.find((f) => f.id === renaming.id);
+    const path = renamed && uploadPath({ ...renamed, name }).toLowerCase();
+    const taken = files.some(
+      (f) => f.id !== renaming.id && uploadPath(f).toLowerCase() === path
+    );
+    if (taken) {
+      setError(t("upload.rename.taken", { name }));
+      return;
+    }
+    setFiles((prev) => prev.map((f) => (f.id === renaming.id ? { ...f, name } : f)));
+  }
+
+  function setNote(id: string, note: string) {
+    setFiles((prev) => prev.map((f) => (f.id === id ? { ...f, note } : f)));
+  }
+
+  // the list order is the order recipients see
+  function moveFile(id: string, to: number) {
+    setFiles((prev) => {
+      const from = prev.findIndex((f) => f.id === id);
+      if (from < 0 || to < 0 || to >= prev.length || from === to) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }
+
+  function clearAll() {
+    setShareUrl("");
+    setFiles([]);
+    setProgress({});
+    setFailedCount(0);
+    setPassword("");
+    setExpiryPreset(prefs.defaultExpiry);
+    setCustomExpiry("");
+    setMaxDownloads("");
+    setEncrypt(false);
+    setTitle("");
+    setMessage("");
+    setSenderName(user?.displayName ?? "");
+    setStatus("");
+    setError("");
+    setEmailStatus("");
+  }
+
+  async function uploadThenFinalize(
+    session: StoredUploadSession,
+    pairs: UploadPair[]
+  ) {
+    const failed = await runUploads(pairs);
+    setFailedCount(failed);
+    if (failed) {
+      setStatus("");
+      setError(t("upload.error.someFailed", { count: failed }));
+      return;
+    }
+    await finalize(session);
+  }
+
+  function endRun() {
+    controllers.current.clear();
+    sessionRef.current = null;
+    setPendingSession(uid ? loadUploadSession(uid) : null);
+    setIsFinalizing(false);
+    setIsUploading(false);
+  }
+
+  async function handleUpload() {
+    setError("");
+    setStatus("");
+    setShareUrl("");
+    setEmailStatus("");
+    setProgress({});
+    setPendingSession(null);
+    setFailedCount(0);
+
+    if (!files.length) {
+      setError(t("upload.error.noFiles"));
+      return;
+    }
+    if (!acceptedFiles.length) {
+      setError(t("upload.error.noAllowedFiles"));
+      return;
+    }
+    if (password && password.length < MIN_PASSWORD_LENGTH) {
+      setError(t("upload.error.passwordTooShort", { min: MIN_PASSWORD_LENGTH }));
+      return;
+    }
+    if (!resolveExpiry(expiryPreset, customExpiry)) {
+      setError(t("upload.error.expiryInPast"));
+      return;
+    }
+    if (
+      maxDownloads &&
+      !(Number.isInteger(Number(maxDownloads)) && Number(maxDownloads) >= 1)
+    ) {
+      setError(t("upload.error.maxDownloads"));
+      return;
+    }
+
+    setIsUploading(true);
+
+    try {
+      const encryptionKey = encrypt ? await generateKey() : undefined;
+
+      // with encryption, storage only ever sees opaque bytes
+      const initJson = await api.initTransfer({
+        files: acceptedFiles.map((f) => ({
+          name: f.name,
+          path: uploadPath(f),
+          note: f.note.trim() || undefined,
+          type: encryptionKey
+            ? ENCRYPTED_CONTENT_TYPE
+            : f.file.type || "application/octet-stream",
+          size: encryptionKey ? encryptedSize(f.file.size) : f.file.size,
+        })),
+        resumable: true,
+        encrypted: encryptionKey ? true : undefined,
+      });
+
+      if (!initJson.uploads?.length) {
+        throw new Error(t("upload.error.missingUploads"));
+      }
+
+      setStatus(t("upload.status.uploading", { count: initJson.uploads.length }));
+
+      const pairs: UploadPair[] = acceptedFiles
+        .slice(0, initJson.uploads.length)
+        .map((selected, i) => ({
+          selected,
+          entry: {
+            name: selected.name,
+            localName:
+              selected.name !== selected.file.name ? selected.file.name : undefined,
+            note: selected.note.trim() || undefined,
+            path: uploadPath(selected),
+            type: selected.file.type || "application/octet-stream",
+            size: selected.file.size,
+            lastModified: selected.file.lastModified,
+            objectPath: initJson.uploads[i].objectPath,
+            uploadUrl: initJson.uploads[i].uploadUrl,
+            offset: 0,
+            done: false,
+            nonce: encryptionKey ? generateNonce() : undefined,
+          },
+        }));
+
+      const session: StoredUploadSession = {
+        transferId: initJson.transferId,
+        createdAt: Date.now(),
+        files: pairs.map((p) => p.entry),
+        encryptionKey,
+        options: {
+          passwordRequired: !!password,
+          expiryPreset,
+          customExpiry,
+          maxDownloads,
+          title,
+          message,
+          senderName,
+        },
+      };
+      sessionRef.current = session;
+      persistSession();
+
+      await uploadThenFinalize(session, pairs);
+    } catch (e: unknown) {
+      // the backend's limits are stricter than the ones we know about
+      if (e instanceof ApiError && e.status === 413) {
+        setError(t("upload.error.rejectedBySize"));
+      } else {
+        setError(errorMessage(e, t, "common.unknownError"));
+      }
+    } finally {
+      endRun();
+    }
+  }
+
+  async function handleResume() {
+    if (!pendingSession || (!resumePairs.length && !finalizePending)) return;
+    if (missingKey(pendingSession)) {
+      setError(t("upload.error.resumeKey"));
+      return;
+    }
+    if (missingPassword(pendingSession)) {
+      setError(t("upload.error.resumePassword"));
+      return;
+    }
+
+    setError("");
+    setShareUrl("");
+    setEmailStatus("");
+    setFailedCount(0);
+    setIsUploading(true);
+
+    try {
+      // work on a copy; files the user did not re-select are dropped
+      const resumed = new Set(resumePairs.map((p) => p.entry));
+      const pairs: UploadPair[] = [];
+      const session: StoredUploadSession = {
+        ...pendingSession,
+        files: pendingSession.files.flatMap((e) => {
+          if (!e.done && !resumed.has(e)) return [];
+          const copy = { ...e };
+          const pair = resumePairs.find((p) => p.entry === e);
+          if (pair) pairs.push({ selected: pair.selected, entry: copy });
+          return [copy];
+        }),
+      };
+      sessionRef.current = session;
+      persistSession();
+
+      setProgress(
+        Object.fromEntries(
+          pairSessionFiles(session, files)
+            .filter((p) => p.entry.done)
+            .map(({ selected }) => [
+              selected.id,
+              { state: "done", loaded: selected.file.size, rate: 0 },
+            ])
+        )
+      );
+
+      setStatus(t("upload.status.resuming", { count: pairs.length }));
+      await uploadThenFinalize(session, pairs);
+    } catch (e: unknown) {
+      setError(errorMessage(e, t, "common.unknownError"));
+    } finally {
+      endRun();
+    }
+  }
+
+  async function handleFinishWithoutFailed() {
+    if (!pendingSession) return;
+    if (missingKey(pendingSession)) {
+      setError(t("upload.error.resumeKey"));
+      return;
+    }
+    if (missingPassword(pendingSession)) {
+      setError(t("upload.error.resumePassword"));
+      return;
+    }
+
+    setError("");
+    setIsUploading(true);
+
+    try {
+      const session: StoredUploadSession = {
+        ...pendingSession,
+        files: pendingSession.files.filter((e) => e.done),
+      };
+      sessionRef.current = session;
+      persistSession();
+      setFailedCount(0);
+      await finalize(session);
+    } catch (e: unknown) {
+      setError(errorMessage(e, t, "common.unknownError"));
+    } finally {
+      endRun();
+    }
+  }
+
+  function discardSession() {
+    clearUploadSession(uid);
+    setPendingSession(null);
+    setFailedCount(0);
+  }
+
+  async function handleSendEmail() {
+    try {
+      setEmailStatus("");
+      setError("");
+
+      if (!shareTransferId) {
+        setEmailStatus(t("upload.email.noLink"));
+        return;
+      }
+      if (recipients.invalid.length) {
+        setEmailStatus(t("upload.email.invalid", { emails: recipients.invalid.join(", ") }));
+        return;
+      }
+      if (!recipients.valid.length) {
+        setEmailStatus(t("upload.email.noRecipients"));
+        return;
+      }
+      if (recipients.valid.length > MAX_RECIPIENTS) {
+        setEmailStatus(t("upload.email.tooMany", { max: MAX_RECIPIENTS }));
+        return;
+      }
+
+      setIsSendingEmail(true);
+
+      const { results } = await api.sendEmail(shareTransferId, {
+        to: recipients.valid,
+        message: emailMsg.trim() || undefined,
+      });
+
+      setDeliveries((prev) => [
+        ...results,
+        ...prev.filter((d) => !results.some((r) => r.to === d.to)),
+      ]);
+
+      const sent = results.filter((r) => r.status === "sent").map((r) => r.to);
+      const failed = results.filter((r) => r.status !== "sent").map((r) => r.to);
+      if (sent.length) setRecentRecipients(rememberRecipients(uid, sent));
+
+      // leave only the failed addresses in the box, ready for another try
+      setEmailTo(failed.join(", "));
+      setEmailStatus(
+        failed.length
+          ? t("upload.email.partial", { sent: sent.length, failed: failed.length })
+          : `✅ ${t("upload.email.sent", { count: sent.length })}`
+      );
+    } catch (e: unknown) {
+      setEmailStatus(errorMessage(e, t, "upload.email.failed"));
+    } finally {
+      setIsSendingEmail(false);
+    }
+  }
+
+  function addRecipient(email: string) {
+    setEmailTo((prev) => (prev.trim() ? `${prev.trim().replace(/[,;]$/, "")}, ${email}` : email));
+  }
+
+  const shareLink = shareUrl + (shareKey ? keyFragment(shareKey) : "");
+
+  // the backend refuses uploads from unverified password accounts as well
+  if (needsEmailVerification(user)) {
+    return (
+      <>
+        <TopRightBar userEmail={userEmail} onSignOut={signOut} />
+        <PageShell maxWidth="max-w-4xl">
+          <Card className="relative w-full max-w-3xl bg-slate-900/35 border-slate-800 backdrop-blur-xl shadow-2xl">
+            <CardContent className="p-8 space-y-6">
+              <div className="flex justify-center pt-2">
+                <img
+                  src={logo}
+                  alt="Swift Transfer"
+                  className="h-36 sm:h-44 md:h-52 lg:h-60 w-auto opacity-95 select-none"
+                  draggable={false}
+                />
+              </div>
+              <VerifyEmailCard />
+            </CardContent>
+          </Card>
+        </PageShell>
+      </>
+    );
+  }
+
+  return (
+  <>
+    {/* TOP RIGHT: email + sign out */}
+    <TopRightBar userEmail={userEmail} onSignOut={signOut} />
+
+   <a
+  href="https://docs.google.com/forms/d/e/1FAIpQLSfz4oGM7ITJfXZjBal4vyBHaTbASKg2ZLW6BmPRhXysZ30Umg/viewform?usp=dialog"
+  target="_blank"
+  rel="noopener noreferrer"
+  className="
+    fixed bottom-4
+    right-4 sm:right-6
+    z-40
+    text-xs text-slate-300/60
+    hover:text-slate-100
+    underline underline-offset-4
+    transition-colors
+  "
+>
+  {t("common.feedback")}
+</a>
+
+
+
+
+    <PageShell maxWidth="max-w-4xl">
+      {/* păstrăm exact ce aveai deja, doar schimbăm wrapper-ul exterior */}
+      <Card className="relative w-full max-w-3xl bg-slate-900/35 border-slate-800 backdrop-blur-xl shadow-2xl">
+        <CardContent className="p-8 space-y-6">
+          {/* LOGO */}
+          <div className="flex justify-center pt-2">
+            <img
+              src={logo}
+              alt="Swift Transfer"
+              className="h-36 sm:h-44 md:h-52 lg:h-60 w-auto opacity-95 select-none"
+              draggable={false}
+            />
+          </div>
+
+          <div className="text-center text-sm md:text-base text-slate-200/90">
+            {t("upload.subtitle")}
+          </div>
+
+          <div className="flex flex-col md:flex-row items-stretch md:items-center gap-3">
+            <div className="flex-1">
+              {/* Choose files / drop zone */}
+              <div className="flex-1">
+                <label
+                  htmlFor="file-upload"
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = "copy";
+                    setIsDragging(true);
+                  }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={handleDrop}
+                  className={`flex cursor-pointer flex-col items-center justify-center rounded-xl border border-dashed px-6 py-6 text-center transition hover:border-indigo-400 hover:bg-slate-900/40 ${
+                    isDragging
+                      ? "border-indigo-400 bg-indigo-500/10"
+                      : "border-slate-700 bg-slate-950/30"
+                  }`}
+                >
+                  <div className="text-lg font-medium text-slate-100">
+                    {isDragging ? t("upload.dropToAdd") : t("upload.chooseFiles")}
+                  </div>
+                  <div className="mt-1 text-sm text-slate-300/80">
+                    {t("upload.dropHint")}
+                  </div>
+                </label>
+
+                <input
+                  id="file-upload"
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    addFiles(filesFromInput(e.target.files));
+                    e.target.value = "";
+                  }}
+                />
+
+                <div className="mt-2 text-center text-xs text-slate-300/70">
+                  <label
+                    htmlFor="folder-upload"
+                    className="cursor-pointer underline underline-offset-4 hover:text-slate-100"
+                  >
+                    {t("upload.chooseFolder")}
+                  </label>
+                  <input
+                    id="folder-upload"
+                    type="file"
+                    multiple
+                    className="hidden"
+                    ref={(el) => el?.setAttribute("webkitdirectory", "")}
+                    onChange={(e) => {
+                      addFiles(filesFromInput(e.target.files));
+                      e.target.value = "";
+                    }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleUpload} disabled={isUploading || isFinalizing}>
+                {isUploading
+                  ? t("upload.uploading")
+                  : isFinalizing
+                  ? t("upload.finalizing")
+                  : t("upload.upload")}
+              </Button>
+
+              <Button
+                variant="secondary"
+                onClick={clearAll}
+                disabled={isUploading || isFinalizing || (!files.length && !shareUrl)}
+              >
+                {t("upload.clearAll")}
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-slate-200/80">
+            <div>
+              {t("transfer.filesSummary", {
+                count: files.length,
+                size: formatBytes(totalSize),
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300/80">
+              <label className="flex items-center gap-2" title={t("upload.duplicates.compareHint")}>
+                <input
+                  type="checkbox"
+                  checked={compareContents}
+                  onChange={(e) => setCompareContents(e.target.checked)}
+                  disabled={isUploading || isFinalizing || checkingDuplicates}
+                  className="accent-indigo-400"
+                />
+                {t("upload.duplicates.compare")}
+              </label>
+
+              {checkingDuplicates ? (
+                <span>{t("upload.duplicates.checking")}</span>
+              ) : (
+                files.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={removeDuplicates}
+                    disabled={isUploading || isFinalizing}
+                    className="underline underline-offset-4 hover:text-slate-100 disabled:opacity-50"
+                  >
+                    {t("upload.duplicates.remove")}
+                  </button>
+                )
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-slate-300/80">
+              {t("upload.parallel")}
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isUploading || isFinalizing}
+                className="rounded-md border border-slate-800 bg-slate-950/60 px-2 py-1 text-slate-100"
+              >
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(
+                  (n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  )
+                )}
+              </select>
+            </label>
+          </div>
+
+          <DuplicateFilesDialog
+            names={
+              duplicatePrompt?.incoming
+                .filter((f) => duplicatePrompt.duplicates.has(f.id))
+                .map((f) => f.path) ?? []
+            }
+            onChoose={resolveDuplicates}
+          />
+
+          {policyIssues.size > 0 && !isUploading && !isFinalizing && (
+            <div className="rounded-md border border-red-900/60 bg-red-950/30 p-3 text-sm text-red-100">
+              {t("upload.policy.summary", { count: policyIssues.size })}
+            </div>
+          )}
+
+          {!online && (
+            <div className="rounded-md border border-amber-500/30 bg-amber-500/10 p-3 text-sm text-amber-100">
+              {t("upload.offline")}
+            </div>
+          )}
+
+          {pendingSession && !isUploading && !isFinalizing && (
+            failedCount > 0 ? (
+              <div className="rounded-xl border border-red-900/60 bg-red-950/30 p-4 space-y-3 text-sm text-red-100">
+                <div>
+                  {t("upload.failedSummary", {
+                    failed: failedCount,
+                    done: pendingSession.files.filter((e) => e.done).length,
+                  })}
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handleResume} disabled={!resumePairs.length}>
+                    {t("upload.retryFailed", { count: resumePairs.length })}
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={handleFinishWithoutFailed}
+                    disabled={!pendingSession.files.some((e) => e.done)}
+                  >
+                    {t("upload.finishWithout")}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="rounded-xl border border-amber-500/30 bg-amber-500/10 p-4 space-y-3 text-sm text-amber-100">
+                <div>
+                  {t("upload.unfinished", {
+                    date: formatDate(pendingSession.createdAt),
+                    done: pendingSession.files.filter((e) => e.done).length,
+                    total: pendingSession.files.length,
+                  })}
+                </div>
+                {missingKey(pendingSession) && <div>🔐 {t("upload.error.resumeKey")}</div>}
+                {!pendingSession.options ? (
+                  <div>{t("upload.resumeOptionsLost")}</div>
+                ) : (
+                  pendingSession.options.passwordRequired && (
+                    <div>🔒 {t("upload.resumePasswordHint")}</div>
+                  )
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleResume}
+                    disabled={
+                      (!resumePairs.length && !finalizePending) || missingKey(pendingSession)
+                    }
+                  >
+                    {t("upload.resume")}
+                    {resumePairs.length ? ` (${resumePairs.length})` : ""}
+                  </Button>
+                  <Button variant="secondary" onClick={discardSession}>
+                    {t("upload.discard")}
+                  </Button>
+                </div>
+              </div>
+            )
+          )}
+
+          {isUploading && overall.size > 0 && (
+            <div className="space-y-2">
+              <Progress value={(overall.loaded / overall.size) * 100} />
+              <div className="flex flex-wrap justify-between gap-2 text-xs text-slate-300/80">
+                <span>
+                  {formatBytes(overall.loaded)} / {formatBytes(overall.size)}
+                </span>
+                <span>
+                  {formatRate(overall.rate)} •{" "}
+                  {t("upload.timeLeft", { eta: formatDuration(overall.eta) })}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {files.length > 0 && (
+            <div className="space-y-2">
+              {files.map((f, index) => {
+                const p = progress[f.id];
+                const issue = p ? undefined : policyIssues.get(f.id);
+                // name, note and position are fixed once the upload has started
+                const editable = !p && !isUploading && !isFinalizing;
+                const active =
+                  p?.state === "queued" ||
+                  p?.state === "uploading" ||
+                  p?.state === "retrying" ||
+                  p?.state === "offline";
+
+                return (
+                  <div
+                    key={f.id}
+                    data-file-row
+                    onDragOver={(e) => {
+                      if (!draggingId) return;
+                      e.preventDefault();
+                      if (draggingId !== f.id) moveFile(draggingId, index);
+                    }}
+                    onDrop={(e) => {
+                      if (draggingId) e.preventDefault();
+                    }}
+                    className={`flex items-center justify-between gap-3 rounded-xl border px-4 py-3 ${
+                      issue
+                        ? "border-red-900/60 bg-red-950/30"
+                        : "border-slate-800 bg-slate-950/20"
+                    } ${draggingId === f.id ? "opacity-50" : ""}`}
+                  >
+                    {editable && files.length > 1 && (
+                      <div className="flex flex-col items-center text-slate-400">
+                        <button
+                          type="button"
+                          aria-label={t("upload.moveUp")}
+                          title={t("upload.moveUp")}
+                          onClick={() => moveFile(f.id, index - 1)}
+                          disabled={index === 0}
+                          className="px-1 text-xs hover:text-slate-100 disabled:opacity-30"
+                        >
+                          ▲
+                        </button>
+                        <span
+                          draggable
+                          title={t("upload.dragToReorder")}
+                          onDragStart={(e) => {
+                            const row = e.currentTarget.closest("[data-file-row]");
+                            if (row) e.dataTransfer.setDragImage(row, 16, 16);
+                            e.dataTransfer.effectAllowed = "move";
+                            setDraggingId(f.id);
+                          }}
+                          onDragEnd={() => setDraggingId(null)}
+                          className="cursor-grab select-none px-1 active:cursor-grabbing"
+                        >
+                          ⠿
+                        </span>
+                        <button
+                          type="button"
+                          aria-label={t("upload.moveDown")}
+                          title={t("upload.moveDown")}
+                          onClick={() => moveFile(f.id, index + 1)}
+                          disabled={index === files.length - 1}
+                          className="px-1 text-xs hover:text-slate-100 disabled:opacity-30"
+                        >
+                          ▼
+                        </button>
+                      </div>
+                    )}
+
+                    <div className="min-w-0 flex-1 space-y-1">
+                      {renaming?.id === f.id ? (
+                        <Input
+                          autoFocus
+                          value={renaming.value}
+                          aria-label={t("upload.rename.label")}
+                          onChange={(e) => setRenaming({ id: f.id, value: e.target.value })}
+                          onBlur={commitRename}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") commitRename();
+                            if (e.key === "Escape") setRenaming(null);
+                          }}
+                        />
+                      ) : (
+                        <div className="flex items-center gap-2 min-w-0">
+                          <div className="truncate text-slate-100" title={uploadPath(f)}>
+                            {uploadPath(f)}
+                          </div>
+                          {editable && (
+                            <button
+                              type="button"
+                              aria-label={t("upload.rename.label")}
+                              title={t("upload.rename.label")}
+                              onClick={() => setRenaming({ id: f.id, value: f.name })}
+                              className="shrink-0 text-xs text-slate-400 hover:text-slate-100"
+                            >
+                              ✏️
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {f.name !== f.file.name && (
+                        <div className="truncate text-xs text-slate-400">
+                          {t("upload.rename.original", { name: f.file.name })}
+                        </div>
+                      )}
+                      <div className="text-xs text-slate-300/80">
+                        {p && p.state !== "queued"
+                          ? fileProgressLabel(p, f.file.size, t)
+                          : formatBytes(f.file.size)}
+                      </div>
+                      {issue && (
+                        <div className="text-xs text-red-200">
+                          {policyIssueLabel(issue, t)}
+                        </div>
+                      )}
+                      {editable ? (
+                        <Input
+                          value={f.note}
+                          maxLength={MAX_NOTE_LENGTH}
+                          onChange={(e) => setNote(f.id, e.target.value)}
+                          placeholder={t("upload.notePlaceholder")}
+                          aria-label={t("upload.notePlaceholder")}
+                        />
+                      ) : (
+                        f.note.trim() && (
+                          <div className="text-xs text-slate-300/80 break-words">
+                            📝 {f.note}
+                          </div>
+                        )
+                      )}
+                      {p && p.state !== "cancelled" && (
+                        <Progress
+                          value={
+                            p.state === "done"
+                              ? 100
+                              : (p.loaded / (f.file.size || 1)) * 100
+                          }
+                          indicatorClassName={
+                            p.state === "done"
+                              ? "bg-emerald-400"
+                              : p.state === "error"
+                              ? "bg-red-400"
+                              : undefined
+                          }
+                        />
+                      )}
+                    </div>
+
+                    {isUploading && active ? (
+                      <Button variant="secondary" onClick={() => cancelFile(f.id)}>
+                        {t("common.cancel")}
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="secondary"
+                        onClick={() => removeFile(f.id)}
+                        disabled={isUploading || isFinalizing}
+                      >
+                        {t("upload.remove")}
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {files.length > 0 && !shareUrl && (
+            <div className="rounded-xl border border-slate-800 bg-slate-950/20 p-4 space-y-3">
+              <div className="text-sm text-slate-200/90 font-medium">
+                {t("upload.options")}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <div className="text-xs text-slate-300/80">{t("upload.titleLabel")}</div>
+                  <Input
+                    value={title}
+                    maxLength={MAX_TITLE_LENGTH}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder={t("upload.titlePlaceholder")}
+                    disabled={isUploading || isFinalizing}
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <div className="text-xs text-slate-300/80">{t("upload.senderLabel")}</div>
+                  <Input
+                    value={senderName}
+                    maxLength={MAX_SENDER_NAME_LENGTH}
+                    onChange={(e) => setSenderName(e.target.value)}
+                    placeholder={t("upload.senderPlaceholder")}
+                    disabled={isUploading || isFinalizing}
+                  />
+                </div>
+
+                <div className="space-y-1 md:col-span-2">
+                  <div className="text-xs text-slate-300/80">{t("upload.messageLabel")}</div>
+                  <textarea
+                    value={message}
+                    maxLength={MAX_MESSAGE_LENGTH}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder={t("upload.messagePlaceholder")}
+                    disabled={isUploading || isFinalizing}
+                    rows={3}
+                    className="w-full rounded-md border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <div className="text-xs text-slate-300/70">
+                    {t("upload.messageHint")}
+                    {encrypt && ` ${t("upload.messageNotEncrypted")}`}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <div className="text-xs text-slate-300/80">
+                    {t("upload.passwordLabel")}
+                  </div>
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={t("upload.passwordPlaceholder")}
+                    disabled={isUploading || isFinalizing}
+                    className="text-slate-100 placeholder:text-slate-400"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <div className="text-xs text-slate-300/80">
+                    {t("upload.maxDownloadsLabel")}
+                  </div>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={maxDownloads}
+                    onChange={(e) => setMaxDownloads(e.target.value)}
+                    placeholder={t("upload.unlimited")}
+                    disabled={isUploading || isFinalizing}
+                    className="text-slate-100 placeholder:text-slate-400"
+                  />
+                </div>
+
+                <label className="md:col-span-2 flex items-start gap-2 text-sm text-slate-200/85">
+                  <input
+                    type="checkbox"
+                    checked={encrypt}
+                    onChange={(e) => setEncrypt(e.target.checked)}
+                    disabled={isUploading || isFinalizing}
+                    className="mt-1 accent-indigo-400"
+                  />
+                  <span>
+                    🔐 {t("upload.encrypt")}
+                    <span className="block text-xs text-slate-300/80">
+                      {t("upload.encryptHint")}
+                    </span>
+                  </span>
+                </label>
+
+                <div className="space-y-1 md:col-span-2">
+                  <div className="text-xs text-slate-300/80">{t("upload.expiresAfter")}</div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {EXPIRY_PRESETS.map((p) => (
+                      <Button
+                        key={p.value}
+                        type="button"
+                        size="sm"
+                        variant={expiryPreset === p.value ? "default" : "secondary"}
+                        onClick={() => setExpiryPreset(p.value)}
+                        disabled={isUploading || isFinalizing}
+                      >
+                        {t(p.label)}
+                      </Button>
+                    ))}
+
+                    {expiryPreset === "custom" && (
+                      <input
+                        type="date"
+                        value={customExpiry}
+                        min={toDateInputValue(Date.now())}
+                        onChange={(e) => setCustomExpiry(e.target.value)}
+                        disabled={isUploading || isFinalizing}
+                        className="rounded-md border border-slate-800 bg-slate-950/60 px-2 py-1 text-sm text-slate-100 [color-scheme:dark]"
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {status && (
+            <div className="rounded-lg border border-slate-800 bg-slate-950/25 p-4 text-sm text-slate-100">
+              {status}
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-lg border border-red-900/60 bg-red-950/30 p-4 text-sm text-red-100">
+              {error}
+            </div>
+          )}
+
+          {shareUrl && (
+            <div className="rounded-xl border border-slate-800 bg-slate-950/20 p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="font-medium text-emerald-300">✅ {t("upload.shareLink")}</div>
+                {sharedWithPassword && (
+                  <span className="inline-flex items-center rounded-full border border-indigo-500/30 bg-indigo-500/15 px-2 py-0.5 text-xs text-indigo-200">
+                    🔒 {t("transfer.passwordProtectedShort")}
+                  </span>
+                )}
+                {shareKey && (
+                  <span className="inline-flex items-center rounded-full border border-emerald-500/30 bg-emerald-500/15 px-2 py-0.5 text-xs text-emerald-200">
+                    🔐 {t("transfer.encrypted")}
+                  </span>
+                )}
+              </div>
+
+              <SharePanel
+                url={shareLink}
+                fileName={`swift-transfer-${shareTransferId}`}
+              />
+
+              {shareKey ? (
+                <div className="pt-3 border-t border-slate-800/70 text-sm text-slate-200/85">
+                  {t("upload.email.encryptedNote")}
+                </div>
+              ) : (
+                <div className="pt-3 border-t border-slate-800/70 space-y-2">
+                  <div className="text-sm text-slate-200/90 font-medium">
+                    {t("upload.email.title")}
+                  </div>
+
+                  <div className="space-y-2">
+                    <textarea
+                      value={emailTo}
+                      onChange={(e) => setEmailTo(e.target.value)}
+                      placeholder={t("upload.email.recipientsPlaceholder")}
+                      rows={2}
+                      className="w-full rounded-md border border-slate-800 bg-slate-950/60 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+
+                    {(recipients.valid.length > 0 || recipients.invalid.length > 0) && (
+                      <div className="flex flex-wrap gap-1.5 text-xs">
+                        {recipients.valid.map((r) => (
+                          <span
+                            key={r}
+                            className="rounded-full border border-slate-700 bg-slate-800/60 px-2 py-0.5 text-slate-100"
+                          >
+                            {r}
+                          </span>
+                        ))}
+                        {recipients.invalid.map((r) => (
+                          <span
+                            key={r}
+                            title={t("upload.email.invalidAddress")}
+                            className="rounded-full border border-red-700/70 bg-red-950/40 px-2 py-0.5 text-red-200 line-through"
+                          >
+                            {r}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    {recentSuggestions.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                        <span className="text-slate-300/70">{t("upload.email.recent")}</span>
+                        {recentSuggestions.map((r) => (
+                          <button
+                            key={r}
+                            type="button"
+                            onClick={() => addRecipient(r)}
+                            className="rounded-full border border-slate-800 px-2 py-0.5 text-slate-300 hover:border-slate-600 hover:text-slate-100"
+                          >
+                            + {r}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    <Input
+                      value={emailMsg}
+                      onChange={(e) => setEmailMsg(e.target.value)}
+                      placeholder={t("upload.email.messagePlaceholder")}
+                      className="text-slate-100 placeholder:text-slate-400"
+                    />
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Button
+                      onClick={handleSendEmail}
+                      disabled={isSendingEmail || !recipients.valid.length}
+                    >
+                      {isSendingEmail
+                        ? t("upload.email.sending")
+                        : recipients.valid.length > 1
+                        ? t("upload.email.sendTo", { count: recipients.valid.length })
+                        : t("upload.email.send")}
+                    </Button>
+
+                    {emailStatus && (
+                      <div className="text-sm text-slate-200/80">{emailStatus}</div>
+                    )}
+                  </div>
+
+                  {deliveries.length > 0 && (
+                    <div className="divide-y divide-slate-800/70 rounded-lg border border-slate-800 text-sm">
+                      {deliveries.map((d) => (
+                        <div
+                          key={d.to}
+                          className="flex items-center justify-between gap-3 px-3 py-1.5"
+                        >
+                          <span className="min-w-0 truncate text-slate-100">{d.to}</span>
+                          <span
+                            className={
+                              d.status === "sent" ? "text-emerald-300" : "text-red-200"
+                            }
+                            title={d.error}
+                          >
+                            {d.status === "sent"
+                              ? `✓ ${t("uploads.emailSent")}`
+                              : `✗ ${d.error || t("uploads.emailFailed")}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </PageShell>
+  </>
+);
+
+}